@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { CasingSetting, ColumnCasing } from '@/types/drizzle';
+
+const CASING_LABELS: Record<CasingSetting, string> = {
+  auto: 'Auto',
+  none: 'As written',
+  snake_case: 'snake_case',
+  camelCase: 'camelCase',
+};
+
+interface CasingSelectProps {
+  value: CasingSetting;
+  // Casing found in drizzle() or drizzle.config.ts, shown next to Auto
+  detected?: ColumnCasing;
+  onChange: (value: CasingSetting) => void;
+  className?: string;
+}
+
+// Casing of database column names the schema leaves out, e.g. createdAt: timestamp()
+export function CasingSelect({ value, detected, onChange, className = '' }: CasingSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={event => onChange(event.target.value as CasingSetting)}
+      title="Database names of columns declared without one"
+      className={`bg-muted/50 rounded-md text-xs text-foreground px-2 outline-none transition-colors duration-200 hover:bg-accent/50 ${className}`}
+    >
+      {(Object.keys(CASING_LABELS) as CasingSetting[]).map(setting => (
+        <option key={setting} value={setting}>
+          Casing: {setting === 'auto' && value === 'auto' && detected ? `Auto (${detected})` : CASING_LABELS[setting]}
+        </option>
+      ))}
+    </select>
+  );
+}
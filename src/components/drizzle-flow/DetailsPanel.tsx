@@ -0,0 +1,62 @@
+'use client';
+
+import React, { useContext } from 'react';
+import { Node, Panel } from '@xyflow/react';
+import { NameDisplayMode, ParsedEnum, ParsedTable, ParsedView } from '@/types/drizzle';
+import { getDisplayName } from '@/lib/drizzle-utils';
+import { NameModeContext } from '@/components/drizzle-flow/NameModeContext';
+
+interface DocumentedEntry {
+  name: string;
+  description: string;
+}
+
+// Documentation of the selected table, view or enum, with the members that carry their own
+function getDocumentation(node: Node, nameMode: NameDisplayMode): { title: string; description?: string; entries: DocumentedEntry[] } | null {
+  if (node.type === 'table' || node.type === 'view') {
+    const item = node.type === 'table' ? (node.data as { table: ParsedTable }).table : (node.data as { view: ParsedView }).view;
+    return {
+      title: getDisplayName(item, nameMode),
+      description: item.description,
+      entries: item.columns
+        .filter(column => column.description)
+        .map(column => ({ name: getDisplayName(column, nameMode), description: column.description! })),
+    };
+  }
+  if (node.type === 'enum') {
+    const parsedEnum = (node.data as { enum: ParsedEnum }).enum;
+    return {
+      title: getDisplayName(parsedEnum, nameMode),
+      description: parsedEnum.description,
+      entries: Object.entries(parsedEnum.valueDescriptions ?? {}).map(([name, description]) => ({ name, description })),
+    };
+  }
+  return null;
+}
+
+export function DetailsPanel({ selectedNode }: { selectedNode?: Node }) {
+  const nameMode = useContext(NameModeContext);
+  const documentation = selectedNode && getDocumentation(selectedNode, nameMode);
+  if (!documentation || (!documentation.description && documentation.entries.length === 0)) return null;
+
+  return (
+    <Panel position="bottom-center" className="bg-card border border-border rounded-lg shadow-lg text-xs max-w-md max-h-64 overflow-y-auto transition-colors duration-200">
+      <div className="px-3 py-2 space-y-2">
+        <div className="font-medium text-card-foreground">{documentation.title}</div>
+        {documentation.description && (
+          <p className="text-muted-foreground whitespace-pre-line">{documentation.description}</p>
+        )}
+        {documentation.entries.length > 0 && (
+          <dl className="space-y-1">
+            {documentation.entries.map(entry => (
+              <div key={entry.name}>
+                <dt className="font-mono text-card-foreground">{entry.name}</dt>
+                <dd className="text-muted-foreground whitespace-pre-line">{entry.description}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </Panel>
+  );
+}
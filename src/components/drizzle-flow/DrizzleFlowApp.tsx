@@ -7,52 +7,78 @@ import { Button } from '@/components/ui/button';
 import { PanelLeftOpen, VectorSquare, Code } from 'lucide-react';
 import { InputPanel } from '@/components/schema-visualizer/InputPanel';
 import { DrizzleFlowVisualization } from './DrizzleFlowVisualization';
+import { CasingSelect } from './CasingSelect';
 import { ThemeToggle } from '@/components/schema-visualizer/ThemeToggle';
-import { parseDrizzleSchema } from '@/lib/drizzle-parser';
-import { parsePrismaSchema } from '@/lib/prisma-parser';
+import { parseDrizzleSchemaFiles } from '@/lib/drizzle-parser';
+import { parsePrismaSchemaFiles } from '@/lib/prisma-parser';
 import { PanelState, SchemaValidationStatus } from '@/components/schema-visualizer/types';
 import type { SchemaStats } from '@/components/schema-visualizer/types';
-import { OrmType } from '@/types/drizzle';
+import { CasingSetting, NameDisplayMode, OrmType, SchemaFile } from '@/types/drizzle';
+import { DIALECT_LABELS } from '@/lib/drizzle-utils';
 
 interface DrizzleFlowAppProps {
   className?: string;
 }
 
 export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
-  const [schema, setSchema] = useState('');
+  const [files, setFiles] = useState<SchemaFile[]>([{ path: 'schema.ts', content: '' }]);
+  const [activePath, setActivePath] = useState('schema.ts');
   const [ormType, setOrmType] = useState<OrmType>('drizzle');
+  const [nameMode, setNameMode] = useState<NameDisplayMode>('orm');
+  const [casingSetting, setCasingSetting] = useState<CasingSetting>('auto');
   const [panelState, setPanelState] = useState<PanelState>(PanelState.EXPANDED);
   const [isAnimating, setIsAnimating] = useState(false);
   const panelRef = useRef<ImperativePanelHandle>(null);
 
   const SCHEMA_STORAGE_KEY = 'drizzle-schema-editor';
+  const SCHEMA_FILES_STORAGE_KEY = 'drizzle-schema-files';
   const ORM_TYPE_STORAGE_KEY = 'orm-type-preference';
   const PANEL_STATE_STORAGE_KEY = 'drizzle-panel-state';
+  const NAME_MODE_STORAGE_KEY = 'name-mode-preference';
+  const CASING_STORAGE_KEY = 'drizzle-casing-preference';
 
   // Load from localStorage
   useEffect(() => {
     try {
+      const savedFiles = localStorage.getItem(SCHEMA_FILES_STORAGE_KEY);
       const savedSchema = localStorage.getItem(SCHEMA_STORAGE_KEY);
       const savedOrmType = localStorage.getItem(ORM_TYPE_STORAGE_KEY) as OrmType | null;
       const savedPanelState = localStorage.getItem(PANEL_STATE_STORAGE_KEY) as PanelState | null;
-      if (savedSchema) setSchema(savedSchema);
+      const savedNameMode = localStorage.getItem(NAME_MODE_STORAGE_KEY) as NameDisplayMode | null;
+      const savedCasing = localStorage.getItem(CASING_STORAGE_KEY) as CasingSetting | null;
+      if (savedFiles) {
+        const parsedFiles = JSON.parse(savedFiles) as SchemaFile[];
+        if (Array.isArray(parsedFiles) && parsedFiles.length > 0) {
+          setFiles(parsedFiles);
+          setActivePath(parsedFiles[0].path);
+        }
+      } else if (savedSchema) {
+        // Schemas saved before multi-file support become a single file
+        setFiles([{ path: 'schema.ts', content: savedSchema }]);
+      }
       if (savedOrmType && ['drizzle', 'prisma'].includes(savedOrmType)) {
         setOrmType(savedOrmType);
       }
       if (savedPanelState && Object.values(PanelState).includes(savedPanelState)) {
         setPanelState(savedPanelState);
       }
+      if (savedNameMode && ['orm', 'database'].includes(savedNameMode)) {
+        setNameMode(savedNameMode);
+      }
+      if (savedCasing && ['auto', 'none', 'snake_case', 'camelCase'].includes(savedCasing)) {
+        setCasingSetting(savedCasing);
+      }
     } catch {
       // ignore storage errors
     }
   }, []);
 
-  // Persist schema
+  // Persist schema files
   useEffect(() => {
     try {
-      localStorage.setItem(SCHEMA_STORAGE_KEY, schema);
+      localStorage.setItem(SCHEMA_FILES_STORAGE_KEY, JSON.stringify(files));
     } catch {}
-  }, [schema]);
+  }, [files]);
 
   // Persist ORM type
   useEffect(() => {
@@ -61,6 +87,20 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
     } catch {}
   }, [ormType]);
 
+  // Persist name mode
+  useEffect(() => {
+    try {
+      localStorage.setItem(NAME_MODE_STORAGE_KEY, nameMode);
+    } catch {}
+  }, [nameMode]);
+
+  // Persist casing
+  useEffect(() => {
+    try {
+      localStorage.setItem(CASING_STORAGE_KEY, casingSetting);
+    } catch {}
+  }, [casingSetting]);
+
   // Persist panel state
   useEffect(() => {
     try {
@@ -70,9 +110,9 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
 
   // Parse schema and generate stats
   const parseResult = useMemo(() => {
-    if (!schema.trim()) return null;
-    return ormType === 'drizzle' ? parseDrizzleSchema(schema) : parsePrismaSchema(schema);
-  }, [schema, ormType]);
+    if (files.every(file => !file.content.trim())) return null;
+    return ormType === 'drizzle' ? parseDrizzleSchemaFiles(files, casingSetting) : parsePrismaSchemaFiles(files);
+  }, [files, ormType, casingSetting]);
 
   const stats: SchemaStats = useMemo(() => {
     if (!parseResult?.success || !parseResult.data) {
@@ -84,14 +124,21 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
     }
 
     return {
-      tableCount: parseResult.data.tables.length,
+      tableCount: parseResult.data.tables.filter(table => !table.isVirtual).length,
       relationshipCount: parseResult.data.relationships.length,
       validationStatus: parseResult.success ? SchemaValidationStatus.VALID : SchemaValidationStatus.INVALID
     };
   }, [parseResult]);
 
+  const activeSchema = files.find(file => file.path === activePath)?.content ?? '';
+
   const handleSchemaChange = useCallback((newSchema: string) => {
-    setSchema(newSchema);
+    setFiles(current => current.map(file => file.path === activePath ? { ...file, content: newSchema } : file));
+  }, [activePath]);
+
+  const handleFilesChange = useCallback((newFiles: SchemaFile[], newActivePath: string) => {
+    setFiles(newFiles);
+    setActivePath(newActivePath);
   }, []);
 
   const handlePanelStateChange = useCallback((newState: PanelState) => {
@@ -159,8 +206,12 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
         >
           <div className={`h-full ${panelState === PanelState.HIDDEN ? 'opacity-0 pointer-events-none' : 'opacity-100'} transition-opacity duration-300 ease-out`}>
             <InputPanel
-              schema={schema}
+              schema={activeSchema}
               onSchemaChange={handleSchemaChange}
+              files={files}
+              activePath={activePath}
+              ormType={ormType}
+              onFilesChange={handleFilesChange}
               stats={stats}
               panelState={panelState}
               onPanelStateChange={handlePanelStateChange}
@@ -208,11 +259,56 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
                       Prisma
                     </Button>
                   </div>
+                  {/* Name Mode Selector */}
+                  <div className="flex items-center gap-1 bg-muted/50 p-1 rounded-md">
+                    <Button
+                      variant={nameMode === 'orm' ? 'default' : 'ghost'}
+                      size="sm"
+                      onClick={() => setNameMode('orm')}
+                      title="Show ORM property names"
+                      className={`h-7 px-3 text-xs transition-all duration-200 ${
+                        nameMode === 'orm' 
+                          ? 'bg-primary text-primary-foreground shadow-sm' 
+                          : 'hover:bg-accent/50'
+                      }`}
+                    >
+                      ORM
+                    </Button>
+                    <Button
+                      variant={nameMode === 'database' ? 'default' : 'ghost'}
+                      size="sm"
+                      onClick={() => setNameMode('database')}
+                      title="Show database table and column names"
+                      className={`h-7 px-3 text-xs transition-all duration-200 ${
+                        nameMode === 'database' 
+                          ? 'bg-primary text-primary-foreground shadow-sm' 
+                          : 'hover:bg-accent/50'
+                      }`}
+                    >
+                      DB
+                    </Button>
+                  </div>
+                  {ormType === 'drizzle' && (
+                    <CasingSelect
+                      value={casingSetting}
+                      detected={parseResult?.data?.casing}
+                      onChange={setCasingSetting}
+                      className="h-9"
+                    />
+                  )}
                 </div>
                 <div className="flex items-center gap-4">
                   {parseResult?.success && parseResult.data && (
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                      <span>{parseResult.data.tables.length} {ormType === 'prisma' ? 'Models' : 'Tables'}</span>
+                      {parseResult.data.dialect && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-muted text-foreground font-medium">
+                          {DIALECT_LABELS[parseResult.data.dialect]}
+                        </span>
+                      )}
+                      <span>{stats.tableCount} {ormType === 'prisma' ? 'Models' : 'Tables'}</span>
+                      {parseResult.data.views.length > 0 && (
+                        <span>{parseResult.data.views.length} Views</span>
+                      )}
                       <span>{parseResult.data.relationships.length} Relationships</span>
                       {parseResult.data.enums && parseResult.data.enums.length > 0 && (
                         <span>{parseResult.data.enums.length} Enums</span>
@@ -229,7 +325,10 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
               {parseResult?.success && parseResult.data ? (
                 <DrizzleFlowVisualization 
                   tables={parseResult.data.tables}
+                  views={parseResult.data.views}
+                  enums={parseResult.data.enums}
                   relationships={parseResult.data.relationships}
+                  nameMode={nameMode}
                 />
               ) : (
                 <div className="h-full flex items-center justify-center text-muted-foreground bg-background">
@@ -284,11 +383,51 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
                   Prisma
                 </Button>
               </div>
+              {/* Mobile Name Mode Selector */}
+              <div className="flex items-center gap-1 bg-muted/50 p-1 rounded-md">
+                <Button
+                  variant={nameMode === 'orm' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setNameMode('orm')}
+                  title="Show ORM property names"
+                  className={`h-6 px-2 text-xs transition-all duration-200 ${
+                    nameMode === 'orm' 
+                      ? 'bg-primary text-primary-foreground shadow-sm' 
+                      : 'hover:bg-accent/50'
+                  }`}
+                >
+                  ORM
+                </Button>
+                <Button
+                  variant={nameMode === 'database' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setNameMode('database')}
+                  title="Show database table and column names"
+                  className={`h-6 px-2 text-xs transition-all duration-200 ${
+                    nameMode === 'database' 
+                      ? 'bg-primary text-primary-foreground shadow-sm' 
+                      : 'hover:bg-accent/50'
+                  }`}
+                >
+                  DB
+                </Button>
+              </div>
+              {ormType === 'drizzle' && (
+                <CasingSelect
+                  value={casingSetting}
+                  detected={parseResult?.data?.casing}
+                  onChange={setCasingSetting}
+                  className="h-8"
+                />
+              )}
             </div>
             <div className="flex items-center gap-2">
               {parseResult?.success && parseResult.data && (
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <span>{parseResult.data.tables.length} {ormType === 'prisma' ? 'M' : 'T'}</span>
+                  <span>{stats.tableCount} {ormType === 'prisma' ? 'M' : 'T'}</span>
+                  {parseResult.data.views.length > 0 && (
+                    <span>{parseResult.data.views.length} V</span>
+                  )}
                   <span>{parseResult.data.relationships.length} R</span>
                   {parseResult.data.enums && parseResult.data.enums.length > 0 && (
                     <span>{parseResult.data.enums.length} E</span>
@@ -329,8 +468,12 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
           {panelState === PanelState.EXPANDED ? (
             <div className="h-full">
               <InputPanel
-                schema={schema}
+                schema={activeSchema}
                 onSchemaChange={handleSchemaChange}
+                files={files}
+                activePath={activePath}
+                ormType={ormType}
+                onFilesChange={handleFilesChange}
                 stats={stats}
                 panelState={panelState}
                 onPanelStateChange={handlePanelStateChange}
@@ -343,7 +486,10 @@ export function DrizzleFlowApp({ className = '' }: DrizzleFlowAppProps) {
                 {parseResult?.success && parseResult.data ? (
                   <DrizzleFlowVisualization 
                     tables={parseResult.data.tables}
+                    views={parseResult.data.views}
+                    enums={parseResult.data.enums}
                     relationships={parseResult.data.relationships}
+                    nameMode={nameMode}
                   />
                 ) : (
                   <div className="h-full flex items-center justify-center text-muted-foreground bg-background">
@@ -16,20 +16,393 @@ import {
   Connection,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { DrizzleFlowVisualizationProps } from '@/types/drizzle';
+import { DrizzleFlowVisualizationProps, NameDisplayMode, NodeKind, ParsedEnum, ParsedRelationship, ParsedTable, ParsedView, RelationshipCardinality } from '@/types/drizzle';
 import { TableNode } from '@/components/drizzle-flow/TableNode';
+import { EdgeLegend } from '@/components/drizzle-flow/EdgeLegend';
+import { DetailsPanel } from '@/components/drizzle-flow/DetailsPanel';
+import { NameModeContext } from '@/components/drizzle-flow/NameModeContext';
+import { ViewNode } from '@/components/drizzle-flow/ViewNode';
+import { EnumNode } from '@/components/drizzle-flow/EnumNode';
+import { NodeVisibilityPanel } from '@/components/drizzle-flow/NodeVisibilityPanel';
+import { HiddenNodeKindsContext } from '@/components/drizzle-flow/NodeVisibilityContext';
+import { SchemaGroupNode, SchemaGroupData, SCHEMA_GROUP_HEADER_HEIGHT } from '@/components/drizzle-flow/SchemaGroupNode';
+import { EMULATED_RELATION_STYLE, ENUM_USAGE_STYLE, REFERENTIAL_ACTION_STYLES, VIEW_DEPENDENCY_STYLE, getDisplayName, getReferentialActionStyleKey } from '@/lib/drizzle-utils';
 
 // Custom node types
 const nodeTypes = {
   table: TableNode,
+  view: ViewNode,
+  enum: EnumNode,
+  schemaGroup: SchemaGroupNode,
 };
 
+// Stable fallbacks so the node memo does not rebuild on every render
+const EMPTY_VIEWS: ParsedView[] = [];
+const EMPTY_ENUMS: ParsedEnum[] = [];
+
+// Enums without a schema group sit in a column left of the tables
+const ENUM_COLUMN_X = -320;
+const ENUM_GAP = 24;
+
+// Layout of tables inside a schema group
+const GROUP_PADDING = 24;
+const GROUP_GAP = 80;
+const GROUP_COLUMNS = 3;
+const GROUP_TABLE_WIDTH = 340;
+const GROUP_TABLE_GAP = 40;
+
+// Crow's foot glyphs for the source and target end of each cardinality
+const CARDINALITY_MARKERS: Record<RelationshipCardinality, { start: 'one' | 'many'; end: 'one' | 'many' }> = {
+  'one-to-one': { start: 'one', end: 'one' },
+  'one-to-many': { start: 'one', end: 'many' },
+  'many-to-one': { start: 'many', end: 'one' },
+  'many-to-many': { start: 'many', end: 'many' },
+};
+
+const CARDINALITY_LABELS: Record<RelationshipCardinality, string> = {
+  'one-to-one': '1:1',
+  'one-to-many': '1:N',
+  'many-to-one': 'N:1',
+  'many-to-many': 'N:M',
+};
+
+// SVG marker definitions referenced by edges, one set per edge color;
+// auto-start-reverse lets the same glyph face the source node at the start of an edge
+function CardinalityMarkers() {
+  return (
+    <svg style={{ position: 'absolute', width: 0, height: 0 }}>
+      <defs>
+        {Object.entries(REFERENTIAL_ACTION_STYLES).map(([styleKey, style]) => (
+          <React.Fragment key={styleKey}>
+            <marker
+              id={`crowsfoot-one-${styleKey}`}
+              viewBox="0 0 12 12"
+              refX={12}
+              refY={6}
+              markerWidth={12}
+              markerHeight={12}
+              markerUnits="userSpaceOnUse"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 6 L 12 6 M 7 1 L 7 11" fill="none" stroke={style.stroke} strokeWidth={1.5} />
+            </marker>
+            <marker
+              id={`crowsfoot-many-${styleKey}`}
+              viewBox="0 0 12 12"
+              refX={12}
+              refY={6}
+              markerWidth={12}
+              markerHeight={12}
+              markerUnits="userSpaceOnUse"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 6 L 12 1 M 0 6 L 12 6 M 0 6 L 12 11" fill="none" stroke={style.stroke} strokeWidth={1.5} />
+            </marker>
+          </React.Fragment>
+        ))}
+      </defs>
+    </svg>
+  );
+}
+
+// Composite foreign keys are drawn as one edge from a grouped handle on the table node
+function isCompositeRelationship(rel: ParsedRelationship): boolean {
+  return rel.sourceColumns.length > 1;
+}
+
+function formatColumnList(columns: string[]): string {
+  return columns.length > 1 ? `(${columns.join(', ')})` : columns[0];
+}
+
+// Map a column to the name shown on edge labels in the current name mode
+type ColumnNameResolver = (tableId: string, column: string) => string;
+
+function createColumnNameResolver(tables: ParsedTable[], nameMode: NameDisplayMode): ColumnNameResolver {
+  return (tableId, column) => {
+    const parsedColumn = tables.find(table => table.id === tableId)?.columns.find(col => col.name === column);
+    return parsedColumn ? getDisplayName(parsedColumn, nameMode) : column;
+  };
+}
+
+function buildNode(table: ParsedTable, tables: ParsedTable[], relationships: ParsedRelationship[]): Node {
+  const compositeForeignKeys = relationships.filter(rel => rel.source === table.id && isCompositeRelationship(rel));
+  return {
+    id: table.id,
+    type: 'table',
+    position: table.position,
+    data: {
+      table,
+      compositeForeignKeys,
+      // Tables the foreign keys point to, for their display names
+      referencedTables: tables.filter(other =>
+        compositeForeignKeys.some(rel => rel.target === other.id) ||
+        table.columns.some(column => column.references?.table === other.id)
+      ),
+    },
+    dragHandle: '.drag-handle',
+  };
+}
+
+// Rough rendered height of a table node, used to size schema groups before React Flow measures them
+function estimateTableHeight(table: ParsedTable): number {
+  const columnsHeight = table.columns.reduce((height, column) => {
+    const extraLines = [column.defaultValue, column.onUpdateValue, column.generated].filter(Boolean).length;
+    return height + 58 + extraLines * 20;
+  }, 0);
+  const indexesHeight = table.indexes.length > 0
+    ? 36 + table.indexes.reduce((height, index) => height + (index.where ? 52 : 36), 0)
+    : 0;
+  const constraintsHeight = table.constraints.length > 0 ? 36 + table.constraints.length * 36 : 0;
+  const compositeKeysHeight = table.primaryKey && table.primaryKey.columns.length > 1 ? 56 : 0;
+  return 41 + columnsHeight + indexesHeight + constraintsHeight + compositeKeysHeight;
+}
+
+function buildViewNode(view: ParsedView): Node {
+  return {
+    id: view.id,
+    type: 'view',
+    position: view.position,
+    data: { view },
+    dragHandle: '.drag-handle',
+  };
+}
+
+function estimateViewHeight(view: ParsedView): number {
+  return 41 + view.columns.length * 33 + (view.definition ? 33 : 0);
+}
+
+// Enum node id that cannot clash with a table id (a Prisma enum and model never share a name, pgEnum variables might)
+function getEnumNodeId(enumName: string): string {
+  return `enum-${enumName}`;
+}
+
+function buildEnumNode(parsedEnum: ParsedEnum, tables: ParsedTable[], position: { x: number; y: number }): Node {
+  return {
+    id: getEnumNodeId(parsedEnum.name),
+    type: 'enum',
+    position,
+    data: {
+      enum: parsedEnum,
+      usageCount: tables.reduce((count, table) => count + table.columns.filter(column => column.enumName === parsedEnum.name).length, 0),
+    },
+    dragHandle: '.drag-handle',
+  };
+}
+
+// Values wrap roughly three to a line
+function estimateEnumHeight(parsedEnum: ParsedEnum): number {
+  return 41 + 16 + Math.ceil(parsedEnum.values.length / 3) * 26;
+}
+
+// Group id that cannot clash with a table id
+function getSchemaGroupId(schema: string): string {
+  return `schema-group-${schema}`;
+}
+
+// Tables, views and enums of each database schema are laid out in a grid inside a collapsible group node;
+// without schemas every node keeps its own position and enums are stacked left of the tables
+function buildNodes(tables: ParsedTable[], views: ParsedView[], enums: ParsedEnum[], relationships: ParsedRelationship[]): Node[] {
+  let enumY = 50;
+  const entries = [
+    ...tables.map(table => ({ node: buildNode(table, tables, relationships), schema: table.schema, height: estimateTableHeight(table) })),
+    ...views.map(view => ({ node: buildViewNode(view), schema: view.schema, height: estimateViewHeight(view) })),
+    ...enums.map(parsedEnum => {
+      const height = estimateEnumHeight(parsedEnum);
+      const position = { x: ENUM_COLUMN_X, y: enumY };
+      enumY += height + ENUM_GAP;
+      return { node: buildEnumNode(parsedEnum, tables, position), schema: parsedEnum.schema, height };
+    }),
+  ];
+  const schemas = Array.from(new Set(entries.map(entry => entry.schema).filter((schema): schema is string => !!schema)));
+  if (schemas.length === 0) {
+    return entries.map(entry => entry.node);
+  }
+
+  const nodes: Node[] = [];
+  let groupX = 50;
+
+  schemas.forEach(schema => {
+    const schemaEntries = entries.filter(entry => entry.schema === schema);
+    const groupId = getSchemaGroupId(schema);
+    const childNodes: Node[] = [];
+    let rowY = SCHEMA_GROUP_HEADER_HEIGHT + GROUP_PADDING;
+
+    for (let rowStart = 0; rowStart < schemaEntries.length; rowStart += GROUP_COLUMNS) {
+      const row = schemaEntries.slice(rowStart, rowStart + GROUP_COLUMNS);
+      row.forEach((entry, columnIndex) => {
+        childNodes.push({
+          ...entry.node,
+          position: { x: GROUP_PADDING + columnIndex * (GROUP_TABLE_WIDTH + GROUP_TABLE_GAP), y: rowY },
+          parentId: groupId,
+          expandParent: true,
+        });
+      });
+      rowY += Math.max(...row.map(entry => entry.height)) + GROUP_TABLE_GAP;
+    }
+
+    const columnCount = Math.min(schemaEntries.length, GROUP_COLUMNS);
+    const width = GROUP_PADDING * 2 + columnCount * GROUP_TABLE_WIDTH + (columnCount - 1) * GROUP_TABLE_GAP;
+    const height = rowY - GROUP_TABLE_GAP + GROUP_PADDING;
+    const data: SchemaGroupData = {
+      schema,
+      tableCount: schemaEntries.filter(entry => entry.node.type === 'table').length,
+      viewCount: schemaEntries.filter(entry => entry.node.type === 'view').length,
+      enumCount: schemaEntries.filter(entry => entry.node.type === 'enum').length,
+      collapsed: false,
+      expandedWidth: width,
+      expandedHeight: height,
+    };
+
+    // Parents must come before their children
+    nodes.push({
+      id: groupId,
+      type: 'schemaGroup',
+      position: { x: groupX, y: 50 },
+      data,
+      style: { width, height },
+      zIndex: -1,
+    }, ...childNodes);
+    groupX += width + GROUP_GAP;
+  });
+
+  entries.filter(entry => !entry.schema).forEach((entry, index) => {
+    nodes.push({
+      ...entry.node,
+      position: { x: groupX + (index % GROUP_COLUMNS) * (GROUP_TABLE_WIDTH + GROUP_TABLE_GAP), y: 50 + Math.floor(index / GROUP_COLUMNS) * 400 },
+    });
+  });
+
+  return nodes;
+}
+
+// Several relations between the same two tables need their names to be told apart
+function hasParallelRelationships(rel: ParsedRelationship, relationships: ParsedRelationship[]): boolean {
+  return relationships.some(other =>
+    other !== rel &&
+    ((other.source === rel.source && other.target === rel.target) ||
+      (other.source === rel.target && other.target === rel.source))
+  );
+}
+
+function getRelationshipLabel(rel: ParsedRelationship, showFields: boolean, resolveColumnName: ColumnNameResolver): string {
+  const fieldNames = [rel.sourceField, rel.targetField].filter(Boolean).join(' / ');
+  const relationLabel = rel.name || (showFields ? fieldNames : '');
+  const sourceColumns = rel.sourceColumns.map(column => resolveColumnName(rel.source, column));
+  const targetColumns = rel.targetColumns.map(column => resolveColumnName(rel.target, column));
+  const columnsLabel = sourceColumns.length > 0
+    ? `${formatColumnList(sourceColumns)} → ${formatColumnList(targetColumns)}`
+    : '';
+
+  const updateLabel = rel.onUpdate ? `on update ${rel.onUpdate}` : '';
+  const throughLabel = rel.through ? `via ${rel.through.table}` : '';
+  const requiredLabel = rel.isOptional === false ? 'required' : '';
+  const whereLabel = rel.where ? `where ${rel.where}` : '';
+  const emulatedLabel = rel.isEmulated ? 'emulated' : '';
+
+  return [relationLabel, columnsLabel, CARDINALITY_LABELS[rel.cardinality], throughLabel, requiredLabel, whereLabel, updateLabel, emulatedLabel].filter(Boolean).join(' · ');
+}
+
+function buildEdge(rel: ParsedRelationship, relationships: ParsedRelationship[], resolveColumnName: ColumnNameResolver): Edge {
+  const styleKey = getReferentialActionStyleKey(rel.onDelete);
+  const actionStyle = REFERENTIAL_ACTION_STYLES[styleKey];
+  const markers = CARDINALITY_MARKERS[rel.cardinality];
+
+  return {
+    id: rel.id,
+    source: rel.source,
+    target: rel.target,
+    // Back-references whose columns could not be resolved use the node's default handles
+    sourceHandle: isCompositeRelationship(rel) ? `${rel.source}-${rel.id}` : rel.sourceColumn ? `${rel.source}-${rel.sourceColumn}` : undefined,
+    targetHandle: rel.targetColumn ? `${rel.target}-${rel.targetColumn}` : undefined,
+    type: 'smoothstep',
+    // Edges with a referential action stay static so their dash pattern reads clearly
+    animated: styleKey === 'default',
+    style: {
+      strokeWidth: 2,
+      stroke: actionStyle.stroke,
+      strokeDasharray: actionStyle.strokeDasharray,
+      strokeOpacity: rel.isEmulated ? EMULATED_RELATION_STYLE.strokeOpacity : undefined,
+    },
+    markerStart: `crowsfoot-${markers.start}-${styleKey}`,
+    markerEnd: `crowsfoot-${markers.end}-${styleKey}`,
+    label: getRelationshipLabel(rel, hasParallelRelationships(rel, relationships), resolveColumnName),
+    labelStyle: {
+      fontSize: 12,
+      fontWeight: 500,
+      fill: '#374151',
+    },
+    labelBgStyle: {
+      fill: '#f9fafb',
+      fillOpacity: 0.8,
+    },
+  };
+}
+
+// Dashed edge from each table or view a view reads from
+function buildViewDependencyEdges(views: ParsedView[]): Edge[] {
+  return views.flatMap(view => view.dependencies.map(dependency => ({
+    id: `view-dependency-${dependency}-${view.id}`,
+    source: dependency,
+    target: view.id,
+    type: 'smoothstep',
+    style: {
+      strokeWidth: 1.5,
+      stroke: VIEW_DEPENDENCY_STYLE.stroke,
+      strokeDasharray: VIEW_DEPENDENCY_STYLE.strokeDasharray,
+    },
+  })));
+}
+
+// Dotted edge from an enum to each column typed with it
+function buildEnumUsageEdges(tables: ParsedTable[], enums: ParsedEnum[]): Edge[] {
+  return tables.flatMap(table => table.columns
+    .filter(column => column.enumName && enums.some(parsedEnum => parsedEnum.name === column.enumName))
+    .map(column => ({
+      id: `enum-usage-${column.enumName}-${table.id}-${column.name}`,
+      source: getEnumNodeId(column.enumName!),
+      target: table.id,
+      targetHandle: `${table.id}-${column.name}`,
+      type: 'smoothstep',
+      style: {
+        strokeWidth: 1.5,
+        stroke: ENUM_USAGE_STYLE.stroke,
+        strokeDasharray: ENUM_USAGE_STYLE.strokeDasharray,
+        strokeLinecap: 'round' as const,
+      },
+    })));
+}
+
+function buildEdges(tables: ParsedTable[], views: ParsedView[], enums: ParsedEnum[], relationships: ParsedRelationship[], nameMode: NameDisplayMode): Edge[] {
+  const resolveColumnName = createColumnNameResolver(tables, nameMode);
+  return [
+    ...relationships.map(rel => buildEdge(rel, relationships, resolveColumnName)),
+    ...buildViewDependencyEdges(views),
+    ...buildEnumUsageEdges(tables, enums),
+  ];
+}
+
+// Hide nodes of the kinds switched off, and the children of collapsed schema groups;
+// React Flow hides the edges of hidden nodes along with them
+function applyNodeVisibility(nodes: Node[], hiddenKinds: NodeKind[]): Node[] {
+  const collapsedGroups = new Set(
+    nodes.filter(node => node.type === 'schemaGroup' && (node.data as SchemaGroupData).collapsed).map(node => node.id)
+  );
+  return nodes.map(node => node.type === 'schemaGroup' ? node : {
+    ...node,
+    hidden: hiddenKinds.includes(node.type as NodeKind) || (!!node.parentId && collapsedGroups.has(node.parentId)),
+  });
+}
+
 export function DrizzleFlowVisualization({ 
   tables, 
+  views = EMPTY_VIEWS,
+  enums = EMPTY_ENUMS,
   relationships, 
+  nameMode = 'orm',
   className = '' 
 }: DrizzleFlowVisualizationProps) {
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [hiddenKinds, setHiddenKinds] = useState<NodeKind[]>([]);
 
   // Track theme changes
   useEffect(() => {
@@ -48,49 +421,25 @@ export function DrizzleFlowVisualization({
     
     return () => observer.disconnect();
   }, []);
-  // Convert parsed tables to React Flow nodes
+  // Convert parsed tables, views and enums to React Flow nodes
   const initialNodes: Node[] = useMemo(() => {
-    return tables.map((table) => ({
-      id: table.id,
-      type: 'table',
-      position: table.position,
-      data: {
-        table,
-      },
-      dragHandle: '.drag-handle',
-    }));
-  }, [tables]);
+    return buildNodes(tables, views, enums, relationships);
+  }, [tables, views, enums, relationships]);
 
-  // Convert parsed relationships to React Flow edges
+  // Convert parsed relationships, view dependencies and enum usages to React Flow edges
   const initialEdges: Edge[] = useMemo(() => {
-    return relationships.map((rel) => ({
-      id: rel.id,
-      source: rel.source,
-      target: rel.target,
-      sourceHandle: `${rel.source}-${rel.sourceColumn}`,
-      targetHandle: `${rel.target}-${rel.targetColumn}`,
-      type: 'smoothstep',
-      animated: true,
-      style: {
-        strokeWidth: 2,
-        stroke: '#6366f1',
-      },
-      markerEnd: {
-        type: 'arrowclosed' as const,
-        color: '#6366f1',
-      },
-      label: `${rel.sourceColumn} → ${rel.targetColumn}`,
-      labelStyle: {
-        fontSize: 12,
-        fontWeight: 500,
-        fill: '#374151',
-      },
-      labelBgStyle: {
-        fill: '#f9fafb',
-        fillOpacity: 0.8,
-      },
-    }));
-  }, [relationships]);
+    return buildEdges(tables, views, enums, relationships, nameMode);
+  }, [tables, views, enums, relationships, nameMode]);
+
+  const nodeKindCounts: Record<NodeKind, number> = useMemo(() => ({
+    table: tables.filter(table => !table.isVirtual).length,
+    view: views.length,
+    enum: enums.length,
+  }), [tables, views, enums]);
+
+  const toggleNodeKind = useCallback((kind: NodeKind) => {
+    setHiddenKinds(kinds => kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind]);
+  }, []);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -102,106 +451,94 @@ export function DrizzleFlowVisualization({
 
   // Update nodes when tables change
   React.useEffect(() => {
-    const newNodes = tables.map((table) => ({
-      id: table.id,
-      type: 'table',
-      position: table.position,
-      data: {
-        table,
-      },
-      dragHandle: '.drag-handle',
-    }));
+    const newNodes = buildNodes(tables, views, enums, relationships);
     setNodes(newNodes);
-  }, [tables, setNodes]);
+  }, [tables, views, enums, relationships, setNodes]);
+
+  // Apply the visibility toggles when they change and to freshly built nodes,
+  // without rebuilding the layout
+  React.useEffect(() => {
+    setNodes(currentNodes => applyNodeVisibility(currentNodes, hiddenKinds));
+  }, [hiddenKinds, initialNodes, setNodes]);
 
   // Update edges when relationships change
   React.useEffect(() => {
-    const newEdges = relationships.map((rel) => ({
-      id: rel.id,
-      source: rel.source,
-      target: rel.target,
-      sourceHandle: `${rel.source}-${rel.sourceColumn}`,
-      targetHandle: `${rel.target}-${rel.targetColumn}`,
-      type: 'smoothstep',
-      animated: true,
-      style: {
-        strokeWidth: 2,
-        stroke: '#6366f1',
-      },
-      markerEnd: {
-        type: 'arrowclosed' as const,
-        color: '#6366f1',
-      },
-      label: `${rel.sourceColumn} → ${rel.targetColumn}`,
-      labelStyle: {
-        fontSize: 12,
-        fontWeight: 500,
-        fill: '#374151',
-      },
-      labelBgStyle: {
-        fill: '#f9fafb',
-        fillOpacity: 0.8,
-      },
-    }));
+    const newEdges = buildEdges(tables, views, enums, relationships, nameMode);
     setEdges(newEdges);
-  }, [relationships, setEdges]);
+  }, [tables, views, enums, relationships, nameMode, setEdges]);
 
   return (
     <div className={`w-full h-full bg-visualization-bg transition-colors duration-200 ${className}`}>
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        nodeTypes={nodeTypes}
-        connectionMode={ConnectionMode.Loose}
-        fitView
-        fitViewOptions={{
-          padding: 0.2,
-          includeHiddenNodes: false,
-        }}
-        defaultEdgeOptions={{
-          type: 'smoothstep',
-          animated: true,
-          style: {
-            strokeWidth: 2,
-            stroke: '#6366f1',
-          },
-        }}
-        className="transition-colors duration-200"
-      >
-        <Controls 
-          className="bg-card border border-border shadow-lg rounded-lg transition-colors duration-200"
-          showZoom={true}
-          showFitView={true}
-          showInteractive={true}
-        />
-        <MiniMap 
-          className="shadow-lg rounded-lg transition-colors duration-200"
-          nodeColor={(node) => {
-            if (node.type === 'table') {
-              // Use subtle colors with good contrast
-              return isDarkMode 
-                ? '#8b5cf6' // Soft violet for dark mode
-                : '#6366f1'; // Muted indigo for light mode
-            }
-            return isDarkMode 
-              ? '#10b981' // Soft emerald for dark mode
-              : '#059669'; // Muted emerald for light mode
-          }}
-          nodeStrokeColor={isDarkMode ? '#d1d5db' : '#6b7280'}
-          nodeStrokeWidth={1.5}
-          zoomable
-          pannable
-        />
-        <Background 
-          variant={BackgroundVariant.Dots} 
-          gap={20} 
-          size={1}
-          color="hsl(var(--border))"
-        />
-      </ReactFlow>
+      <CardinalityMarkers />
+      <NameModeContext.Provider value={nameMode}>
+        <HiddenNodeKindsContext.Provider value={hiddenKinds}>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            nodeTypes={nodeTypes}
+            connectionMode={ConnectionMode.Loose}
+            fitView
+            fitViewOptions={{
+              padding: 0.2,
+              includeHiddenNodes: false,
+            }}
+            defaultEdgeOptions={{
+              type: 'smoothstep',
+              animated: true,
+              style: {
+                strokeWidth: 2,
+                stroke: '#6366f1',
+              },
+            }}
+            className="transition-colors duration-200"
+          >
+            <Controls 
+              className="bg-card border border-border shadow-lg rounded-lg transition-colors duration-200"
+              showZoom={true}
+              showFitView={true}
+              showInteractive={true}
+            />
+            <MiniMap 
+              className="shadow-lg rounded-lg transition-colors duration-200"
+              nodeColor={(node) => {
+                if (node.type === 'schemaGroup') {
+                  return 'transparent';
+                }
+                if (node.type === 'table') {
+                  // Use subtle colors with good contrast
+                  return isDarkMode 
+                    ? '#8b5cf6' // Soft violet for dark mode
+                    : '#6366f1'; // Muted indigo for light mode
+                }
+                if (node.type === 'enum') {
+                  return isDarkMode
+                    ? '#c084fc' // Soft purple for dark mode
+                    : '#a855f7'; // Muted purple for light mode
+                }
+                return isDarkMode 
+                  ? '#10b981' // Soft emerald for dark mode
+                  : '#059669'; // Muted emerald for light mode
+              }}
+              nodeStrokeColor={isDarkMode ? '#d1d5db' : '#6b7280'}
+              nodeStrokeWidth={1.5}
+              zoomable
+              pannable
+            />
+            <Background 
+              variant={BackgroundVariant.Dots} 
+              gap={20} 
+              size={1}
+              color="hsl(var(--border))"
+            />
+            <EdgeLegend />
+            <DetailsPanel selectedNode={nodes.find(node => node.selected)} />
+            <NodeVisibilityPanel counts={nodeKindCounts} hiddenKinds={hiddenKinds} onToggle={toggleNodeKind} />
+          </ReactFlow>
+        </HiddenNodeKindsContext.Provider>
+      </NameModeContext.Provider>
     </div>
   );
 }
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Panel } from '@xyflow/react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { EMULATED_RELATION_STYLE, ENUM_USAGE_STYLE, REFERENTIAL_ACTION_STYLES, VIEW_DEPENDENCY_STYLE } from '@/lib/drizzle-utils';
+
+// Sample line using the same markers and stroke styles as the relationship edges
+function LegendLine({ stroke, strokeDasharray, strokeOpacity, markerEnd }: {
+  stroke: string;
+  strokeDasharray?: string;
+  strokeOpacity?: number;
+  markerEnd?: string;
+}) {
+  return (
+    <svg width="40" height="12" className="flex-shrink-0">
+      <line
+        x1="2"
+        y1="6"
+        x2="38"
+        y2="6"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeDasharray={strokeDasharray}
+        strokeOpacity={strokeOpacity}
+        markerEnd={markerEnd ? `url('#${markerEnd}')` : undefined}
+      />
+    </svg>
+  );
+}
+
+export function EdgeLegend() {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <Panel position="top-right" className="bg-card border border-border rounded-lg shadow-lg text-xs transition-colors duration-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between gap-4 px-3 py-2 font-medium text-card-foreground"
+      >
+        Legend
+        {isOpen ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-2 space-y-2">
+          <div className="space-y-1">
+            <div className="text-muted-foreground">On delete</div>
+            {Object.entries(REFERENTIAL_ACTION_STYLES).map(([styleKey, style]) => (
+              <div key={styleKey} className="flex items-center gap-2">
+                <LegendLine stroke={style.stroke} strokeDasharray={style.strokeDasharray} />
+                <span className="text-card-foreground">{style.label}</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <LegendLine stroke={REFERENTIAL_ACTION_STYLES.default.stroke} strokeOpacity={EMULATED_RELATION_STYLE.strokeOpacity} />
+              <span className="text-card-foreground">{EMULATED_RELATION_STYLE.label}</span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-muted-foreground">Cardinality</div>
+            <div className="flex items-center gap-2">
+              <LegendLine stroke={REFERENTIAL_ACTION_STYLES.default.stroke} markerEnd="crowsfoot-one-default" />
+              <span className="text-card-foreground">One</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <LegendLine stroke={REFERENTIAL_ACTION_STYLES.default.stroke} markerEnd="crowsfoot-many-default" />
+              <span className="text-card-foreground">Many</span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-muted-foreground">Views</div>
+            <div className="flex items-center gap-2">
+              <LegendLine stroke={VIEW_DEPENDENCY_STYLE.stroke} strokeDasharray={VIEW_DEPENDENCY_STYLE.strokeDasharray} />
+              <span className="text-card-foreground">{VIEW_DEPENDENCY_STYLE.label}</span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-muted-foreground">Enums</div>
+            <div className="flex items-center gap-2">
+              <LegendLine stroke={ENUM_USAGE_STYLE.stroke} strokeDasharray={ENUM_USAGE_STYLE.strokeDasharray} />
+              <span className="text-card-foreground">{ENUM_USAGE_STYLE.label}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </Panel>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useContext } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { List } from 'lucide-react';
+import { NameDisplayMode, ParsedEnum } from '@/types/drizzle';
+import { getDisplayName, getNameTooltip } from '@/lib/drizzle-utils';
+import { NameModeContext } from '@/components/drizzle-flow/NameModeContext';
+
+interface EnumNodeProps {
+  data: { enum: ParsedEnum; usageCount: number };
+  selected?: boolean;
+}
+
+export function EnumNode({ data, selected }: EnumNodeProps) {
+  const { enum: parsedEnum, usageCount } = data;
+  const nameMode = useContext(NameModeContext);
+  const alternateMode: NameDisplayMode = nameMode === 'database' ? 'orm' : 'database';
+
+  return (
+    <div
+      className={`bg-card border border-purple-500/50 rounded-lg shadow-lg transition-all duration-200 min-w-[180px] max-w-[260px] ${
+        selected ? 'ring-2 ring-purple-500 shadow-2xl' : 'hover:shadow-xl'
+      }`}
+    >
+      {/* Enum Header */}
+      <div className="drag-handle cursor-move bg-purple-500/10 border-b border-border rounded-t-lg px-3 py-2 transition-colors duration-200">
+        <div className="flex items-center gap-2">
+          <List className="h-4 w-4 text-purple-600 transition-colors duration-200" />
+          <h3
+            className={`font-semibold text-card-foreground text-sm truncate transition-colors duration-200 ${parsedEnum.description ? 'underline decoration-dotted' : ''}`}
+            title={getNameTooltip(parsedEnum, alternateMode)}
+          >
+            {getDisplayName(parsedEnum, nameMode)}
+          </h3>
+          <span
+            className="ml-auto text-xs px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 font-medium"
+            title={`Used by ${usageCount} ${usageCount === 1 ? 'column' : 'columns'}`}
+          >
+            ENUM
+          </span>
+        </div>
+      </div>
+
+      {/* Enum Values */}
+      <div className="px-3 py-2 flex flex-wrap gap-1 rounded-b-lg">
+        {parsedEnum.values.map(value => (
+          <span
+            key={value}
+            className={`text-xs px-1.5 py-0.5 rounded bg-muted text-card-foreground font-mono transition-colors duration-200 ${
+              parsedEnum.valueDescriptions?.[value] ? 'underline decoration-dotted' : ''
+            }`}
+            title={parsedEnum.valueDescriptions?.[value]}
+          >
+            {value}
+          </span>
+        ))}
+      </div>
+
+      {/* Usage edges leave towards the columns typed with the enum */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!w-3 !h-3 !bg-purple-500 !border-2 !border-gray-900 !opacity-0"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import { createContext } from 'react';
+import { NameDisplayMode } from '@/types/drizzle';
+
+// Lets table nodes follow the ORM/database name toggle without rebuilding (and re-laying out) the nodes
+export const NameModeContext = createContext<NameDisplayMode>('orm');
@@ -0,0 +1,7 @@
+'use client';
+
+import { createContext } from 'react';
+import { NodeKind } from '@/types/drizzle';
+
+// Node kinds switched off in the visibility panel, so expanding a schema group keeps them hidden
+export const HiddenNodeKindsContext = createContext<NodeKind[]>([]);
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Panel } from '@xyflow/react';
+import { Eye, EyeOff } from 'lucide-react';
+import { NodeKind } from '@/types/drizzle';
+
+const NODE_KIND_LABELS: Record<NodeKind, string> = {
+  table: 'Tables',
+  view: 'Views',
+  enum: 'Enums',
+};
+
+interface NodeVisibilityPanelProps {
+  counts: Record<NodeKind, number>;
+  hiddenKinds: NodeKind[];
+  onToggle: (kind: NodeKind) => void;
+}
+
+// Show or hide every node of a kind; only kinds present in the schema are listed
+export function NodeVisibilityPanel({ counts, hiddenKinds, onToggle }: NodeVisibilityPanelProps) {
+  const kinds = (Object.keys(NODE_KIND_LABELS) as NodeKind[]).filter(kind => counts[kind] > 0);
+  if (kinds.length < 2) return null;
+
+  return (
+    <Panel position="top-left" className="flex items-center gap-1 bg-card border border-border rounded-lg shadow-lg p-1 text-xs transition-colors duration-200">
+      {kinds.map(kind => {
+        const isHidden = hiddenKinds.includes(kind);
+        return (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => onToggle(kind)}
+            className={`flex items-center gap-1 px-2 py-1 rounded transition-colors duration-200 ${
+              isHidden ? 'text-muted-foreground hover:bg-accent/50' : 'bg-muted text-card-foreground'
+            }`}
+            title={`${isHidden ? 'Show' : 'Hide'} ${NODE_KIND_LABELS[kind].toLowerCase()}`}
+          >
+            {isHidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+            {NODE_KIND_LABELS[kind]} ({counts[kind]})
+          </button>
+        );
+      })}
+    </Panel>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { ParsedPolicy } from '@/types/drizzle';
+
+interface RlsIndicatorProps {
+  policies: ParsedPolicy[];
+}
+
+function PolicyExpression({ label, expression }: { label: string; expression?: string }) {
+  if (!expression) return null;
+
+  return (
+    <div className="mt-1">
+      <span className="text-muted-foreground">{label}</span>
+      <pre className="mt-0.5 px-2 py-1 rounded bg-muted/50 font-mono text-card-foreground whitespace-pre-wrap break-all">{expression}</pre>
+    </div>
+  );
+}
+
+// Shield shown on tables with row-level security; opens a popover listing their policies
+export function RlsIndicator({ policies }: RlsIndicatorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="nodrag flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-800 font-medium"
+        title="Row-level security enabled"
+      >
+        <ShieldCheck className="h-3 w-3" />
+        RLS{policies.length > 0 && ` · ${policies.length}`}
+      </button>
+
+      {isOpen && (
+        <div className="nodrag nowheel absolute right-0 top-full mt-2 z-10 w-80 max-h-80 overflow-y-auto bg-card border border-border rounded-lg shadow-xl text-xs cursor-default transition-colors duration-200">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+            <span className="font-medium text-card-foreground">Row-level security policies</span>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="text-muted-foreground hover:text-card-foreground"
+              title="Close"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+
+          {policies.length === 0 ? (
+            <p className="px-3 py-2 text-muted-foreground">
+              No policies: only the table owner and roles that bypass RLS can access rows.
+            </p>
+          ) : (
+            <div className="divide-y divide-border">
+              {policies.map(policy => (
+                <div key={policy.name} className="px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium font-mono text-card-foreground truncate">{policy.name}</span>
+                    <span className="ml-auto px-1 py-0.5 rounded bg-secondary text-secondary-foreground uppercase">{policy.for}</span>
+                    {policy.as === 'restrictive' && (
+                      <span className="px-1 py-0.5 rounded bg-amber-100 text-amber-800">RESTRICTIVE</span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-muted-foreground">
+                    to <span className="font-mono text-card-foreground">{policy.to.length > 0 ? policy.to.join(', ') : 'public'}</span>
+                  </div>
+                  <PolicyExpression label="using" expression={policy.using} />
+                  <PolicyExpression label="with check" expression={policy.withCheck} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
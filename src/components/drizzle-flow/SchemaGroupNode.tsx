@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useCallback, useContext } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { ChevronDown, ChevronRight, FolderTree } from 'lucide-react';
+import { NodeKind } from '@/types/drizzle';
+import { HiddenNodeKindsContext } from '@/components/drizzle-flow/NodeVisibilityContext';
+
+// Height of the group header, which is all that remains of a collapsed group
+export const SCHEMA_GROUP_HEADER_HEIGHT = 44;
+
+export interface SchemaGroupData {
+  schema: string;
+  tableCount: number;
+  viewCount: number;
+  enumCount: number;
+  collapsed: boolean;
+  expandedWidth: number;
+  expandedHeight: number;
+  [key: string]: unknown;
+}
+
+interface SchemaGroupNodeProps {
+  id: string;
+  data: SchemaGroupData;
+  selected?: boolean;
+}
+
+export function SchemaGroupNode({ id, data, selected }: SchemaGroupNodeProps) {
+  const { setNodes } = useReactFlow();
+  const hiddenKinds = useContext(HiddenNodeKindsContext);
+
+  // Collapsing hides the group's tables; React Flow hides their edges along with them.
+  // Expanding leaves node kinds switched off in the visibility panel hidden
+  const toggleCollapsed = useCallback(() => {
+    const collapsed = !data.collapsed;
+    setNodes(nodes => nodes.map(node => {
+      if (node.id === id) {
+        return {
+          ...node,
+          data: { ...node.data, collapsed },
+          style: {
+            ...node.style,
+            width: collapsed ? 240 : data.expandedWidth,
+            height: collapsed ? SCHEMA_GROUP_HEADER_HEIGHT : data.expandedHeight,
+          },
+        };
+      }
+      if (node.parentId === id) {
+        return { ...node, hidden: collapsed || hiddenKinds.includes(node.type as NodeKind) };
+      }
+      return node;
+    }));
+  }, [id, data.collapsed, data.expandedWidth, data.expandedHeight, hiddenKinds, setNodes]);
+
+  return (
+    <div
+      className={`w-full h-full rounded-xl border-2 border-dashed bg-muted/20 transition-colors duration-200 ${
+        selected ? 'border-primary' : 'border-border'
+      }`}
+    >
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          type="button"
+          onClick={toggleCollapsed}
+          className="nodrag flex items-center justify-center h-6 w-6 rounded hover:bg-accent/50 text-muted-foreground transition-colors duration-200"
+          title={data.collapsed ? 'Expand schema' : 'Collapse schema'}
+        >
+          {data.collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+        <FolderTree className="h-4 w-4 text-primary transition-colors duration-200" />
+        <span className="font-semibold text-sm text-card-foreground transition-colors duration-200">{data.schema}</span>
+        <span className="ml-auto text-xs text-muted-foreground transition-colors duration-200">
+          {data.tableCount} {data.tableCount === 1 ? 'table' : 'tables'}
+          {data.viewCount > 0 && ` · ${data.viewCount} ${data.viewCount === 1 ? 'view' : 'views'}`}
+          {data.enumCount > 0 && ` · ${data.enumCount} ${data.enumCount === 1 ? 'enum' : 'enums'}`}
+        </span>
+      </div>
+    </div>
+  );
+}
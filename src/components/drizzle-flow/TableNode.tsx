@@ -1,24 +1,109 @@
 'use client';
 
-import React from 'react';
+import React, { useContext, useState } from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { Database, Layers } from 'lucide-react';
-import { ParsedColumn, ParsedTable } from '@/types/drizzle';
-import { getColumnTypeColor } from '@/lib/drizzle-utils';
+import { Braces, ChevronDown, ChevronRight, Database, Layers, KeyRound, ListChecks } from 'lucide-react';
+import { NameDisplayMode, ParsedColumn, ParsedColumnDefault, ParsedCompositeType, ParsedIndexKey, ParsedRelationship, ParsedTable } from '@/types/drizzle';
+import { DEFAULT_KIND_STYLES, getColumnTypeColor, getDisplayName, getNameTooltip } from '@/lib/drizzle-utils';
+import { NameModeContext } from '@/components/drizzle-flow/NameModeContext';
+import { RlsIndicator } from '@/components/drizzle-flow/RlsIndicator';
 
 interface TableNodeProps {
-  data: { table: ParsedTable };
+  data: { table: ParsedTable; compositeForeignKeys?: ParsedRelationship[]; referencedTables?: ParsedTable[] };
   selected?: boolean;
 }
 
+function ColumnDefault({ label, value }: { label: string; value: ParsedColumnDefault }) {
+  const kindStyle = DEFAULT_KIND_STYLES[value.kind];
+
+  return (
+    <div className="flex items-center gap-1.5 mt-1 min-w-0" title={`${label}: ${value.value} (${kindStyle.title})`}>
+      <span className="text-xs text-muted-foreground/80 transition-colors duration-200">{label}</span>
+      <span className={`text-[10px] px-1 rounded font-medium ${kindStyle.className}`}>{kindStyle.label}</span>
+      <span className="text-xs text-muted-foreground font-mono truncate max-w-[200px] transition-colors duration-200">
+        {value.value}
+      </span>
+    </div>
+  );
+}
+
+// Fields of an embedded document (Prisma composite type), collapsed by default; nested documents expand on their own
+function EmbeddedDocument({ compositeType }: { compositeType: ParsedCompositeType }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const nameMode = useContext(NameModeContext);
+  const alternateMode: NameDisplayMode = nameMode === 'database' ? 'orm' : 'database';
+  const Chevron = isExpanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="mt-1 min-w-0">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors duration-200"
+        title={`${isExpanded ? 'Hide' : 'Show'} the fields of ${compositeType.name}`}
+      >
+        <Chevron className="h-3 w-3" />
+        <Braces className="h-3 w-3" />
+        <span className="font-mono">{compositeType.name}</span>
+        <span>· {compositeType.columns.length} fields</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-1 ml-1.5 pl-2 border-l border-border space-y-1 transition-colors duration-200">
+          {compositeType.columns.map(field => (
+            <div key={field.name} className="min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span
+                  className={`text-xs text-card-foreground truncate transition-colors duration-200 ${field.description ? 'underline decoration-dotted' : ''}`}
+                  title={getNameTooltip(field, alternateMode)}
+                >
+                  {getDisplayName(field, nameMode)}{!field.isNotNull && '?'}
+                </span>
+                <span className={`text-[10px] px-1.5 rounded font-mono ${getColumnTypeColor(field.type.split('(')[0].replace(/\[\]/g, ''))}`}>
+                  {field.type.split('(')[0]}
+                </span>
+              </div>
+              {field.compositeType && <EmbeddedDocument compositeType={field.compositeType} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function TableNode({ data, selected }: TableNodeProps) {
-  const { table } = data;
+  const { table, compositeForeignKeys = [], referencedTables = [] } = data;
+  const nameMode = useContext(NameModeContext);
+  const compositePrimaryKey = table.primaryKey && table.primaryKey.columns.length > 1 ? table.primaryKey : undefined;
+  // The other name is shown as a tooltip when it differs
+  const alternateMode: NameDisplayMode = nameMode === 'database' ? 'orm' : 'database';
+
+  const formatColumns = (columns: string[], columnsTable: ParsedTable | undefined = table) => columns
+    .map(name => {
+      const column = columnsTable?.columns.find(col => col.name === name);
+      return column ? getDisplayName(column, nameMode) : name;
+    })
+    .join(', ');
 
+  // e.g. users(id), in the selected name mode
+  const formatReference = (target: string, targetColumns: string[]) => {
+    const targetTable = referencedTables.find(other => other.id === target);
+    return `${targetTable ? getDisplayName(targetTable, nameMode) : target}(${formatColumns(targetColumns, targetTable)})`;
+  };
 
+  // e.g. created_at DESC NULLS LAST, title gin_trgm_ops or lower("email")
+  const formatIndexKey = (key: ParsedIndexKey) => [
+    key.column ? formatColumns([key.column]) : key.expression,
+    key.opClass,
+    key.order?.toUpperCase(),
+    key.nulls && `NULLS ${key.nulls.toUpperCase()}`
+  ].filter(Boolean).join(' ');
 
   return (
     <div 
       className={`bg-card border border-border rounded-lg shadow-lg transition-all duration-200 min-w-[250px] ${
+        table.isVirtual ? 'border-dashed' : ''
+      } ${
         selected ? 'ring-2 ring-primary shadow-2xl' : 'hover:shadow-xl hover:border-accent-foreground/20'
       }`}
     >
@@ -26,8 +111,22 @@ export function TableNode({ data, selected }: TableNodeProps) {
       <div className="drag-handle cursor-move bg-muted/50 border-b border-border rounded-t-lg px-3 py-2 transition-colors duration-200">
         <div className="flex items-center gap-2">
           <Database className="h-4 w-4 text-primary transition-colors duration-200" />
-          <h3 className="font-semibold text-card-foreground text-sm transition-colors duration-200">{table.name}</h3>
-          <div className="ml-auto">
+          <h3
+            className={`font-semibold text-card-foreground text-sm transition-colors duration-200 ${table.description ? 'underline decoration-dotted' : ''}`}
+            title={getNameTooltip(table, alternateMode)}
+          >
+            {getDisplayName(table, nameMode)}
+          </h3>
+          <div className="ml-auto flex items-center gap-2">
+            {table.isVirtual && (
+              <span
+                className="text-xs px-1.5 py-0.5 rounded bg-slate-100 text-slate-700 font-medium"
+                title="Join table created by the ORM for an implicit many-to-many relation"
+              >
+                VIRTUAL
+              </span>
+            )}
+            {table.isRlsEnabled && <RlsIndicator policies={table.policies ?? []} />}
             <span className="text-xs text-muted-foreground transition-colors duration-200">{table.columns.length} columns</span>
           </div>
         </div>
@@ -43,8 +142,11 @@ export function TableNode({ data, selected }: TableNodeProps) {
             {/* Column Details */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
-                <span className="font-medium text-sm text-card-foreground truncate transition-colors duration-200">
-                  {column.name}
+                <span
+                  className={`font-medium text-sm text-card-foreground truncate transition-colors duration-200 ${column.description ? 'underline decoration-dotted' : ''}`}
+                  title={getNameTooltip(column, alternateMode)}
+                >
+                  {getDisplayName(column, nameMode)}
                 </span>
                 {/* Text-based indicators */}
                 {column.isPrimaryKey && (
@@ -56,22 +158,66 @@ export function TableNode({ data, selected }: TableNodeProps) {
                 {column.isUnique && !column.isPrimaryKey && (
                   <span className="text-xs px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 font-medium">UQ</span>
                 )}
+                {column.identity && (
+                  <span
+                    className="text-xs px-1.5 py-0.5 rounded bg-orange-100 text-orange-800 font-medium"
+                    title={`GENERATED ${column.identity.toUpperCase()} AS IDENTITY`}
+                  >
+                    ID
+                  </span>
+                )}
+                {column.generated && (
+                  <span
+                    className="text-xs px-1.5 py-0.5 rounded bg-rose-100 text-rose-800 font-medium"
+                    title={`GENERATED ALWAYS AS (${column.generated.expression})`}
+                  >
+                    GEN
+                  </span>
+                )}
+                {column.isArray && (
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-teal-100 text-teal-800 font-medium">ARR</span>
+                )}
+                {column.customType && (
+                  <span
+                    className="text-xs px-1.5 py-0.5 rounded bg-lime-100 text-lime-800 font-medium"
+                    title={`Custom type ${column.customType}: ${column.type}`}
+                  >
+                    CUSTOM
+                  </span>
+                )}
               </div>
-              <div className="flex items-center gap-2 mt-1">
+              <div className="flex items-center gap-2 mt-1 min-w-0">
                 <span className="text-xs text-muted-foreground font-mono transition-colors duration-200">
                   {column.type}
                 </span>
+                {column.tsType && (
+                  <span
+                    className="text-xs text-primary font-mono truncate max-w-[160px] transition-colors duration-200"
+                    title={`TypeScript type: ${column.tsType}`}
+                  >
+                    : {column.tsType}
+                  </span>
+                )}
                 {column.references && (
                   <span className="text-xs text-muted-foreground/80 transition-colors duration-200">
-                    → {column.references.table}
+                    → {formatReference(column.references.table, [column.references.column])}
                   </span>
                 )}
               </div>
+              {column.generated && (
+                <ColumnDefault
+                  label={column.generated.mode ? `generated (${column.generated.mode})` : 'generated'}
+                  value={{ kind: 'sql', value: column.generated.expression }}
+                />
+              )}
+              {column.defaultValue && <ColumnDefault label="default" value={column.defaultValue} />}
+              {column.onUpdateValue && <ColumnDefault label="on update" value={column.onUpdateValue} />}
+              {column.compositeType && <EmbeddedDocument compositeType={column.compositeType} />}
             </div>
             
             {/* Column Type Badge */}
             <div className="flex-shrink-0 ml-2">
-              <span className={`text-xs px-2 py-1 rounded ${getColumnTypeColor(column.type)} font-mono`}>
+              <span className={`text-xs px-2 py-1 rounded ${getColumnTypeColor(column.type.split('(')[0].replace(/\[\]/g, ''))} font-mono`}>
                 {column.type.split('(')[0]}
               </span>
             </div>
@@ -103,24 +249,128 @@ export function TableNode({ data, selected }: TableNodeProps) {
         ))}
       </div>
       
+      {/* Composite Keys Section */}
+      {(compositePrimaryKey || compositeForeignKeys.length > 0) && (
+        <div className="border-t border-border bg-muted/30 last:rounded-b-lg px-3 py-2 transition-colors duration-200">
+          <div className="flex items-center gap-2 mb-2">
+            <KeyRound className="h-3 w-3 text-muted-foreground transition-colors duration-200" />
+            <span className="text-xs font-medium text-muted-foreground transition-colors duration-200">Composite Keys</span>
+          </div>
+          <div className="space-y-1">
+            {compositePrimaryKey && (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-card-foreground font-mono truncate transition-colors duration-200">
+                  ({formatColumns(compositePrimaryKey.columns)})
+                </span>
+                <span className="text-xs px-1 py-0.5 rounded bg-yellow-100 text-yellow-800">PK</span>
+              </div>
+            )}
+            {compositeForeignKeys.map(rel => (
+              <div key={rel.id} className="relative flex items-center justify-between gap-2">
+                <span className="text-xs text-card-foreground font-mono truncate transition-colors duration-200">
+                  ({formatColumns(rel.sourceColumns)}) → {formatReference(rel.target, rel.targetColumns)}
+                </span>
+                <span className="text-xs px-1 py-0.5 rounded bg-blue-100 text-blue-800">FK</span>
+                {/* One grouped handle for the whole composite foreign key */}
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={`${table.id}-${rel.id}`}
+                  className="!w-3 !h-3 !bg-blue-500 !border-2 !border-gray-900 !opacity-0 hover:!opacity-100 transition-opacity"
+                  style={{ 
+                    right: -18,
+                    top: '50%',
+                    transform: 'translateY(-50%)'
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Indexes Section */}
       {table.indexes && table.indexes.length > 0 && (
-        <div className="border-t border-border bg-muted/30 rounded-b-lg px-3 py-2 transition-colors duration-200">
+        <div className="border-t border-border bg-muted/30 last:rounded-b-lg px-3 py-2 transition-colors duration-200">
           <div className="flex items-center gap-2 mb-2">
             <Layers className="h-3 w-3 text-muted-foreground transition-colors duration-200" />
             <span className="text-xs font-medium text-muted-foreground transition-colors duration-200">Indexes</span>
           </div>
           <div className="space-y-1">
             {table.indexes.map(index => (
-              <div key={index.name} className="flex items-center justify-between">
-                <span className="text-xs text-card-foreground font-mono truncate transition-colors duration-200">{index.name}</span>
-                <span className={`text-xs px-1 py-0.5 rounded transition-colors duration-200 ${
-                  index.isUnique 
-                    ? 'bg-purple-100 text-purple-800' 
-                    : 'bg-secondary text-secondary-foreground'
-                }`}>
-                  {index.isUnique ? 'UQ' : 'IDX'}
-                </span>
+              <div key={index.name} className="min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-card-foreground font-mono truncate transition-colors duration-200">{index.name}</span>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {index.isConcurrent && (
+                      <span className="text-[10px] text-muted-foreground transition-colors duration-200" title="Created concurrently">CONC</span>
+                    )}
+                    {index.where && (
+                      <span className="text-xs px-1 py-0.5 rounded bg-amber-100 text-amber-800" title="Partial index">PARTIAL</span>
+                    )}
+                    {index.method && (
+                      <span className="text-xs px-1 py-0.5 rounded bg-sky-100 text-sky-800 uppercase" title="Index method">
+                        {index.method}
+                      </span>
+                    )}
+                    <span className={`text-xs px-1 py-0.5 rounded transition-colors duration-200 ${
+                      index.isUnique 
+                        ? 'bg-purple-100 text-purple-800' 
+                        : 'bg-secondary text-secondary-foreground'
+                    }`}>
+                      {index.isUnique ? 'UQ' : 'IDX'}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground font-mono truncate max-w-[260px] transition-colors duration-200">
+                  ({index.keys.length > 0 ? index.keys.map(formatIndexKey).join(', ') : formatColumns(index.columns)})
+                </div>
+                {index.where && (
+                  <div
+                    className="text-xs text-muted-foreground font-mono truncate max-w-[260px] transition-colors duration-200"
+                    title={`WHERE ${index.where}`}
+                  >
+                    WHERE {index.where}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Constraints Section */}
+      {table.constraints.length > 0 && (
+        <div className="border-t border-border bg-muted/30 rounded-b-lg px-3 py-2 transition-colors duration-200">
+          <div className="flex items-center gap-2 mb-2">
+            <ListChecks className="h-3 w-3 text-muted-foreground transition-colors duration-200" />
+            <span className="text-xs font-medium text-muted-foreground transition-colors duration-200">Constraints</span>
+          </div>
+          <div className="space-y-1">
+            {table.constraints.map(constraint => (
+              <div key={`${constraint.kind}-${constraint.name}`} className="min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-card-foreground font-mono truncate transition-colors duration-200">{constraint.name}</span>
+                  <span className={`text-xs px-1 py-0.5 rounded transition-colors duration-200 ${
+                    constraint.kind === 'unique'
+                      ? 'bg-purple-100 text-purple-800'
+                      : 'bg-amber-100 text-amber-800'
+                  }`}>
+                    {constraint.kind === 'unique' ? 'UQ' : 'CHECK'}
+                  </span>
+                </div>
+                {constraint.expression ? (
+                  <div
+                    className="text-xs text-muted-foreground font-mono truncate max-w-[260px] transition-colors duration-200"
+                    title={constraint.expression}
+                  >
+                    {constraint.expression}
+                  </div>
+                ) : (
+                  <div className="text-xs text-muted-foreground font-mono truncate transition-colors duration-200">
+                    ({formatColumns(constraint.columns)}){constraint.nullsNotDistinct && ' NULLS NOT DISTINCT'}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useContext } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { Eye } from 'lucide-react';
+import { NameDisplayMode, ParsedColumn, ParsedView } from '@/types/drizzle';
+import { getColumnTypeColor, getDisplayName, getNameTooltip } from '@/lib/drizzle-utils';
+import { NameModeContext } from '@/components/drizzle-flow/NameModeContext';
+
+interface ViewNodeProps {
+  data: { view: ParsedView };
+  selected?: boolean;
+}
+
+export function ViewNode({ data, selected }: ViewNodeProps) {
+  const { view } = data;
+  const nameMode = useContext(NameModeContext);
+  const alternateMode: NameDisplayMode = nameMode === 'database' ? 'orm' : 'database';
+
+  return (
+    <div
+      className={`bg-card border border-dashed border-emerald-500/60 rounded-lg shadow-lg transition-all duration-200 min-w-[220px] ${
+        selected ? 'ring-2 ring-emerald-500 shadow-2xl' : 'hover:shadow-xl'
+      }`}
+    >
+      {/* Dependency edges arrive from the tables and views the query reads */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="!w-3 !h-3 !bg-emerald-500 !border-2 !border-gray-900 !opacity-0"
+      />
+
+      {/* View Header */}
+      <div className="drag-handle cursor-move bg-emerald-500/10 border-b border-border rounded-t-lg px-3 py-2 transition-colors duration-200">
+        <div className="flex items-center gap-2">
+          <Eye className="h-4 w-4 text-emerald-600 transition-colors duration-200" />
+          <h3
+            className={`font-semibold text-card-foreground text-sm transition-colors duration-200 ${view.description ? 'underline decoration-dotted' : ''}`}
+            title={getNameTooltip(view, alternateMode)}
+          >
+            {getDisplayName(view, nameMode)}
+          </h3>
+          <span className="ml-auto text-xs px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-800 font-medium">
+            {view.materialized ? 'MAT VIEW' : 'VIEW'}
+          </span>
+        </div>
+        {view.isExisting && (
+          <p className="text-xs text-muted-foreground mt-1 transition-colors duration-200">Existing view, managed outside the schema</p>
+        )}
+      </div>
+
+      {/* View Columns */}
+      <div className="divide-y divide-border transition-colors duration-200">
+        {view.columns.map((column: ParsedColumn) => (
+          <div key={column.name} className="flex items-center justify-between gap-2 px-3 py-1.5">
+            <span
+              className={`text-sm text-card-foreground truncate transition-colors duration-200 ${column.description ? 'underline decoration-dotted' : ''}`}
+              title={getNameTooltip(column, alternateMode)}
+            >
+              {getDisplayName(column, nameMode)}
+            </span>
+            <span className={`text-xs px-2 py-0.5 rounded ${getColumnTypeColor(column.type.split('(')[0].replace(/\[\]/g, ''))} font-mono`}>
+              {column.type.split('(')[0]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Query */}
+      {view.definition && (
+        <div
+          className="border-t border-border bg-muted/30 rounded-b-lg px-3 py-2 text-xs text-muted-foreground font-mono truncate max-w-[320px] transition-colors duration-200"
+          title={view.definition}
+        >
+          {view.definition}
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="!w-3 !h-3 !bg-emerald-500 !border-2 !border-gray-900 !opacity-0"
+      />
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, DragEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
 import { CodeEditor } from './CodeEditor';
 import { MetricsBar } from './MetricsBar';
+import { SchemaFileTabs } from './SchemaFileTabs';
 import { PanelState, SchemaStats as SchemaStatsType } from './types';
+import { OrmType, SchemaFile } from '@/types/drizzle';
+import { readDroppedFiles } from '@/lib/schema-files';
 
 interface InputPanelProps {
   schema: string;
   onSchemaChange: (schema: string) => void;
+  files: SchemaFile[];
+  activePath: string;
+  ormType: OrmType;
+  onFilesChange: (files: SchemaFile[], activePath: string) => void;
   stats: SchemaStatsType;
   panelState: PanelState;
   onPanelStateChange: (state: PanelState) => void;
@@ -19,12 +26,18 @@ interface InputPanelProps {
 export function InputPanel({ 
   schema, 
   onSchemaChange, 
+  files,
+  activePath,
+  ormType,
+  onFilesChange,
   stats, 
   panelState, 
   onPanelStateChange,
   className = ''
 }: InputPanelProps) {
   const [localSchema, setLocalSchema] = useState(schema);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
 
   // Keep local editor value in sync with upstream schema (e.g., loaded from localStorage)
   useEffect(() => {
@@ -36,6 +49,30 @@ export function InputPanel({
     onSchemaChange(value);
   }, [onSchemaChange]);
 
+  // Imported files (folder, zip or drop) replace the current ones
+  const importFiles = useCallback(async (read: () => Promise<SchemaFile[]>) => {
+    try {
+      const imported = await read();
+      if (imported.length === 0) {
+        setImportError(`No ${ormType === 'drizzle' ? 'TypeScript or JavaScript' : '.prisma'} files found`);
+        return;
+      }
+      setImportError(null);
+      const sorted = [...imported].sort((a, b) => a.path.localeCompare(b.path));
+      onFilesChange(sorted, sorted[0].path);
+    } catch (error) {
+      console.error('Error importing schema files:', error);
+      setImportError('Could not read the imported files');
+    }
+  }, [ormType, onFilesChange]);
+
+  const handleDrop = useCallback((event: DragEvent<HTMLDivElement>) => {
+    setIsDragging(false);
+    if (event.dataTransfer.files.length === 0) return;
+    event.preventDefault();
+    const { dataTransfer } = event;
+    importFiles(() => readDroppedFiles(dataTransfer, ormType));
+  }, [importFiles, ormType]);
 
   if (panelState === PanelState.HIDDEN) {
     return null;
@@ -67,9 +104,29 @@ export function InputPanel({
         </div>
       </div>
 
+      <SchemaFileTabs
+        files={files}
+        activePath={activePath}
+        ormType={ormType}
+        onFilesChange={onFilesChange}
+        onImport={importFiles}
+      />
+      {importError && (
+        <p className="px-4 pb-1 text-xs text-destructive">{importError}</p>
+      )}
+
       {/* Code editor area - seamless, minimal design */}
       <div className="flex-1 flex flex-col min-h-0 transition-all duration-300 ease-out opacity-100 animate-in fade-in slide-in-from-top-2">
-        <div className="flex-1 bg-schema-code-bg border-t border-schema-panel-border/30 overflow-hidden">
+        <div
+          className={`flex-1 bg-schema-code-bg border-t border-schema-panel-border/30 overflow-hidden ${isDragging ? 'ring-2 ring-inset ring-primary' : ''}`}
+          onDragOver={event => {
+            if (!event.dataTransfer.types.includes('Files')) return;
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
           <CodeEditor
             value={localSchema}
             onChange={handleSchemaChange}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileArchive, FolderOpen, Plus, X } from 'lucide-react';
+import { OrmType, SchemaFile } from '@/types/drizzle';
+import { getUnusedSchemaPath, readFolderFiles, readZipFiles } from '@/lib/schema-files';
+import { normalizeSchemaPath } from '@/lib/drizzle-modules';
+
+interface SchemaFileTabsProps {
+  files: SchemaFile[];
+  activePath: string;
+  ormType: OrmType;
+  onFilesChange: (files: SchemaFile[], activePath: string) => void;
+  onImport: (read: () => Promise<SchemaFile[]>) => void;
+}
+
+// One tab per schema file, plus adding files and importing a whole folder or zip
+export function SchemaFileTabs({ files, activePath, ormType, onFilesChange, onImport }: SchemaFileTabsProps) {
+  const [renamingPath, setRenamingPath] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+
+  const addFile = () => {
+    const path = getUnusedSchemaPath(files, ormType);
+    onFilesChange([...files, { path, content: '' }], path);
+  };
+
+  const removeFile = (path: string) => {
+    const remaining = files.filter(file => file.path !== path);
+    onFilesChange(remaining, path === activePath ? remaining[0].path : activePath);
+  };
+
+  const renameFile = (path: string, newPath: string) => {
+    setRenamingPath(null);
+    const normalizedPath = normalizeSchemaPath(newPath);
+    if (!normalizedPath || normalizedPath === path || files.some(file => file.path === normalizedPath)) return;
+    onFilesChange(
+      files.map(file => file.path === path ? { ...file, path: normalizedPath } : file),
+      activePath === path ? normalizedPath : activePath
+    );
+  };
+
+  return (
+    <div className="border-t border-schema-panel-border/30">
+      <div className="flex items-center gap-1 px-2 py-1 overflow-x-auto">
+        {files.map(file => (
+          <div
+            key={file.path}
+            className={`group flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs font-mono whitespace-nowrap transition-colors duration-200 ${
+              file.path === activePath ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50'
+            }`}
+          >
+            {renamingPath === file.path ? (
+              <input
+                autoFocus
+                defaultValue={file.path}
+                onBlur={event => renameFile(file.path, event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') renameFile(file.path, event.currentTarget.value);
+                  if (event.key === 'Escape') setRenamingPath(null);
+                }}
+                className="bg-transparent outline-none border-b border-border w-40"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => onFilesChange(files, file.path)}
+                onDoubleClick={() => setRenamingPath(file.path)}
+                title={`${file.path} (double-click to rename)`}
+              >
+                {file.path.split('/').pop()}
+              </button>
+            )}
+            {files.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeFile(file.path)}
+                className="opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity duration-200"
+                title={`Remove ${file.path}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div className="ml-auto flex items-center gap-0.5 pl-2">
+          <button
+            type="button"
+            onClick={addFile}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors duration-200"
+            title="Add file"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => folderInputRef.current?.click()}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors duration-200"
+            title="Import folder"
+          >
+            <FolderOpen className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => zipInputRef.current?.click()}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors duration-200"
+            title="Import zip"
+          >
+            <FileArchive className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        // Not in React's input attributes, but supported by every major browser
+        {...{ webkitdirectory: '' }}
+        onChange={event => {
+          const fileList = event.target.files;
+          if (fileList) onImport(() => readFolderFiles(fileList, ormType));
+          event.target.value = '';
+        }}
+      />
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={event => {
+          const zip = event.target.files?.[0];
+          if (zip) onImport(() => readZipFiles(zip, ormType));
+          event.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
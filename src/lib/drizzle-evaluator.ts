@@ -0,0 +1,301 @@
+import { Node, Program, Expression, Pattern, Property, SpreadElement, ObjectExpression, CallExpression, Identifier, Literal, Statement } from 'estree';
+
+// Top-level bindings a column object may refer to: constants and helper functions
+export type SchemaHelpers = { [name: string]: Node };
+
+// Values bound while a helper call is inlined: parameters and the helper's own constants
+type Scope = { [name: string]: Node };
+
+// Deep enough for helpers calling helpers, shallow enough to stop on recursive ones
+const MAX_INLINE_DEPTH = 8;
+
+// TypeScript wrappers that do not change the value, e.g. { ... } as const
+const TRANSPARENT_WRAPPERS = ['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'ParenthesizedExpression'];
+
+// Keys holding TypeScript type syntax, never values
+const TYPE_KEYS = ['typeAnnotation', 'typeParameters', 'typeArguments', 'returnType'];
+
+// Collect top-level constants and functions, exported or not:
+// const timestamps = () => ({ ... }), function auditColumns(prefix) { return { ... } }, const id = uuid('id')
+export function collectSchemaHelpers(ast: Program): SchemaHelpers {
+  const helpers: SchemaHelpers = {};
+  ast.body.forEach((statement) => {
+    const declaration = statement.type === 'ExportNamedDeclaration'
+      ? statement.declaration
+      : statement;
+    if (!declaration) return;
+
+    if (declaration.type === 'FunctionDeclaration' && declaration.id) {
+      helpers[declaration.id.name] = declaration;
+    } else if (declaration.type === 'VariableDeclaration' && declaration.kind === 'const') {
+      declaration.declarations.forEach((declarator) => {
+        if (declarator.id.type === 'Identifier' && declarator.init) {
+          helpers[declarator.id.name] = declarator.init;
+        }
+      });
+    }
+  });
+  return helpers;
+}
+
+// Constant-fold a value the way the columns object of a table sees it:
+// - calls to local helper functions are inlined with their arguments, e.g. ...timestamps() or id().notNull()
+// - constants are replaced by what they are bound to, e.g. ...auditSchema or createdAt: createdAt
+// - spreads of object literals and Object.assign({}, a, b) are flattened into one object
+// Anything that cannot be folded is returned as is
+export function foldExpression(node: Node, helpers: SchemaHelpers): Node {
+  return fold(node, helpers, {}, 0);
+}
+
+function fold(node: Node, helpers: SchemaHelpers, scope: Scope, depth: number): Node {
+  if (depth > MAX_INLINE_DEPTH) return node;
+  const unwrapped = unwrapExpression(node);
+
+  if (unwrapped.type === 'Identifier') {
+    if (unwrapped.name in scope) return scope[unwrapped.name];
+    const bound = helpers[unwrapped.name];
+    // Only values worth inlining: objects, builder calls and literals, never other tables or functions
+    if (bound && (bound.type === 'ObjectExpression' || bound.type === 'CallExpression' || bound.type === 'Literal' || isTransparentWrapper(bound))) {
+      return fold(bound, helpers, {}, depth + 1);
+    }
+    return unwrapped;
+  }
+
+  if (unwrapped.type === 'ObjectExpression') {
+    return foldObject(unwrapped, helpers, scope, depth);
+  }
+
+  if (unwrapped.type === 'CallExpression') {
+    const args = unwrapped.arguments.map(arg => arg.type === 'SpreadElement'
+      ? substitute(arg, scope) as SpreadElement
+      : foldArgument(arg, helpers, scope, depth));
+
+    // Object.assign({}, base, { extra }) merges its object arguments
+    if (isObjectAssign(unwrapped) && args.every(arg => arg.type === 'ObjectExpression')) {
+      const merged = {
+        type: 'ObjectExpression',
+        properties: (args as ObjectExpression[]).flatMap(arg => arg.properties),
+        start: (unwrapped as unknown as { start: number }).start,
+        end: (unwrapped as unknown as { end: number }).end
+      } as unknown as ObjectExpression;
+      return foldObject(merged, helpers, {}, depth);
+    }
+
+    // Inline a call to a local helper function
+    if (unwrapped.callee.type === 'Identifier' && !(unwrapped.callee.name in scope)) {
+      const helper = helpers[unwrapped.callee.name];
+      const inlined = helper ? inlineHelperCall(helper, args, helpers, depth) : null;
+      if (inlined) return inlined;
+    }
+
+    // Method chains fold their base, e.g. id().notNull() becomes uuid('id').primaryKey().notNull()
+    const callee = unwrapped.callee.type === 'MemberExpression' && !unwrapped.callee.computed
+      ? { ...unwrapped.callee, object: fold(unwrapped.callee.object, helpers, scope, depth) as Expression }
+      : substitute(unwrapped.callee, scope);
+    return { ...unwrapped, callee, arguments: args } as CallExpression;
+  }
+
+  // String building, e.g. text(prefix + '_id') or text(`${prefix}_at`)
+  if (unwrapped.type === 'BinaryExpression' && unwrapped.operator === '+' && unwrapped.left.type !== 'PrivateIdentifier') {
+    const left = fold(unwrapped.left, helpers, scope, depth);
+    const right = fold(unwrapped.right, helpers, scope, depth);
+    if (isConstantLiteral(left) && isConstantLiteral(right)) {
+      return createLiteral(unwrapped, typeof left.value === 'number' && typeof right.value === 'number'
+        ? left.value + right.value
+        : String(left.value) + String(right.value));
+    }
+  }
+  if (unwrapped.type === 'TemplateLiteral') {
+    const expressions = unwrapped.expressions.map(expression => fold(expression, helpers, scope, depth));
+    if (expressions.every(isConstantLiteral)) {
+      const value = unwrapped.quasis.map((quasi, index) => quasi.value.cooked + (index < expressions.length ? String((expressions[index] as Literal).value) : '')).join('');
+      return createLiteral(unwrapped, value);
+    }
+  }
+
+  return substitute(unwrapped, scope);
+}
+
+// Helper to fold an object literal, flattening the spreads that resolve to objects
+function foldObject(node: ObjectExpression, helpers: SchemaHelpers, scope: Scope, depth: number): ObjectExpression {
+  const properties: (Property | SpreadElement)[] = [];
+  node.properties.forEach((prop) => {
+    if (prop.type === 'SpreadElement') {
+      const folded = fold(prop.argument, helpers, scope, depth);
+      if (folded.type === 'ObjectExpression') {
+        properties.push(...folded.properties);
+      } else {
+        properties.push({ ...prop, argument: folded as Expression });
+      }
+      return;
+    }
+
+    // Computed keys that fold to a string become plain keys, e.g. { [`${prefix}At`]: ... }
+    const computedKey = prop.computed ? fold(prop.key, helpers, scope, depth) : null;
+    const key = computedKey && isConstantLiteral(computedKey)
+      ? { type: 'Identifier', name: String(computedKey.value) } as Identifier
+      : computedKey ?? prop.key;
+    // A shorthand { createdAt } reads the binding of the same name
+    const value = fold(prop.value, helpers, scope, depth);
+    const property = {
+      ...prop,
+      key,
+      value,
+      computed: prop.computed && key.type !== 'Identifier',
+      shorthand: prop.shorthand && value === prop.value
+    } as Property;
+
+    // Later keys win, like they do at runtime
+    const existingIndex = properties.findIndex(existing => existing.type === 'Property' && getPropertyName(existing) === getPropertyName(property));
+    if (existingIndex >= 0 && getPropertyName(property) !== null) {
+      properties.splice(existingIndex, 1);
+    }
+    properties.push(property);
+  });
+  return { ...node, properties };
+}
+
+// Helper to fold a call argument: literal and object constants and helper calls are resolved, functions are only substituted
+function foldArgument(arg: Expression, helpers: SchemaHelpers, scope: Scope, depth: number): Expression {
+  const unwrapped = unwrapExpression(arg);
+  if (unwrapped.type === 'Identifier' && !(unwrapped.name in scope)) {
+    // Identifiers bound to calls are usually tables or enums passed by reference, e.g. foreignKey(users)
+    const bound = helpers[unwrapped.name];
+    return bound && bound.type !== 'CallExpression' ? fold(unwrapped, helpers, scope, depth) as Expression : unwrapped;
+  }
+  if (['ObjectExpression', 'CallExpression', 'Identifier', 'BinaryExpression', 'TemplateLiteral'].includes(unwrapped.type)) {
+    return fold(unwrapped, helpers, scope, depth) as Expression;
+  }
+  return substitute(unwrapped, scope) as Expression;
+}
+
+// Helper to inline a helper function call: bind the arguments, then fold the returned expression
+function inlineHelperCall(helper: Node, args: (Expression | SpreadElement)[], helpers: SchemaHelpers, depth: number): Node | null {
+  if (helper.type !== 'ArrowFunctionExpression' && helper.type !== 'FunctionExpression' && helper.type !== 'FunctionDeclaration') {
+    return null;
+  }
+
+  const scope: Scope = {};
+  helper.params.forEach((param, index) => {
+    const arg = args[index];
+    bindParameter(param, arg && arg.type !== 'SpreadElement' ? arg : undefined, scope);
+  });
+
+  if (helper.body.type !== 'BlockStatement') {
+    return fold(helper.body, helpers, scope, depth + 1);
+  }
+
+  // Block bodies may declare constants before a single top-level return
+  let returned: Node | null = null;
+  for (const statement of helper.body.body) {
+    if (statement.type === 'ReturnStatement') {
+      returned = statement.argument ?? null;
+      break;
+    }
+    if (!bindLocalConstants(statement, helpers, scope, depth)) return null;
+  }
+  return returned ? fold(returned, helpers, scope, depth + 1) : null;
+}
+
+// Helper to bind a parameter, falling back to its default value, e.g. (name = 'created_at') => ...
+function bindParameter(param: Pattern, arg: Expression | undefined, scope: Scope) {
+  if (param.type === 'Identifier') {
+    if (arg) scope[param.name] = arg;
+  } else if (param.type === 'AssignmentPattern' && param.left.type === 'Identifier') {
+    scope[param.left.name] = arg ?? substitute(param.right, scope);
+  }
+}
+
+// Helper to bind the const declarations of a helper body; any other statement stops inlining
+function bindLocalConstants(statement: Statement, helpers: SchemaHelpers, scope: Scope, depth: number): boolean {
+  if (statement.type !== 'VariableDeclaration' || statement.kind !== 'const') return false;
+  statement.declarations.forEach((declarator) => {
+    if (declarator.id.type === 'Identifier' && declarator.init) {
+      scope[declarator.id.name] = fold(declarator.init, helpers, scope, depth + 1);
+    }
+  });
+  return true;
+}
+
+// Helper to replace the identifiers bound in scope, copying only the nodes that change
+function substitute(node: Node, scope: Scope): Node {
+  if (Object.keys(scope).length === 0) return node;
+  if (node.type === 'Identifier') {
+    return node.name in scope ? scope[node.name] : node;
+  }
+
+  // Parameters of nested functions shadow the outer bindings, e.g. .references(() => table.id)
+  let innerScope = scope;
+  if (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression') {
+    const shadowed = node.params.filter((param): param is Identifier => param.type === 'Identifier').map(param => param.name);
+    innerScope = Object.fromEntries(Object.entries(scope).filter(([name]) => !shadowed.includes(name)));
+  }
+
+  let changed = false;
+  const copy: { [key: string]: unknown } = { ...node };
+  Object.entries(node).forEach(([key, child]) => {
+    if (TYPE_KEYS.includes(key) || isNameKey(node, key)) return;
+    if (Array.isArray(child)) {
+      const children = child.map(item => isNode(item) ? substitute(item, innerScope) : item);
+      if (children.some((item, index) => item !== child[index])) {
+        copy[key] = children;
+        changed = true;
+      }
+    } else if (isNode(child)) {
+      const substituted = substitute(child, innerScope);
+      if (substituted !== child) {
+        copy[key] = substituted;
+        changed = true;
+      }
+    }
+  });
+  return changed ? copy as unknown as Node : node;
+}
+
+// Helper to check whether a child key holds a name rather than a value, e.g. the key of { id: ... } or the property of t.id
+function isNameKey(node: Node, key: string): boolean {
+  if (node.type === 'Property' || node.type === 'MethodDefinition') return key === 'key' && !node.computed;
+  if (node.type === 'MemberExpression') return key === 'property' && !node.computed;
+  return false;
+}
+
+function isNode(value: unknown): value is Node {
+  return !!value && typeof value === 'object' && typeof (value as { type?: unknown }).type === 'string';
+}
+
+function isTransparentWrapper(node: Node): boolean {
+  return TRANSPARENT_WRAPPERS.includes(node.type);
+}
+
+function unwrapExpression(node: Node): Node {
+  let current = node;
+  while (isTransparentWrapper(current)) {
+    current = (current as unknown as { expression: Node }).expression;
+  }
+  return current;
+}
+
+function isObjectAssign(call: CallExpression): boolean {
+  return call.callee.type === 'MemberExpression' &&
+    call.callee.object.type === 'Identifier' &&
+    call.callee.object.name === 'Object' &&
+    call.callee.property.type === 'Identifier' &&
+    call.callee.property.name === 'assign';
+}
+
+function isConstantLiteral(node: Node): node is Literal & { value: string | number } {
+  return node.type === 'Literal' && (typeof node.value === 'string' || typeof node.value === 'number');
+}
+
+// Helper to create a folded literal that keeps the position of the expression it replaces
+function createLiteral(node: Node, value: string | number): Literal {
+  const { start, end } = node as unknown as { start: number; end: number };
+  return { type: 'Literal', value, raw: JSON.stringify(value), start, end } as unknown as Literal;
+}
+
+function getPropertyName(prop: Property): string | null {
+  if (prop.computed) return null;
+  if (prop.key.type === 'Identifier') return prop.key.name;
+  if (prop.key.type === 'Literal') return String(prop.key.value);
+  return null;
+}
@@ -0,0 +1,394 @@
+import { Parser } from 'acorn';
+import tsPlugin from 'acorn-typescript';
+import { Node, Program, Identifier, ModuleDeclaration, Statement, Directive } from 'estree';
+import { SchemaFile } from '@/types/drizzle';
+
+// Extensions tried when an import specifier leaves them out, e.g. './users'
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.jsx', '.mjs'];
+
+// Path alias prefixes resolved by matching the end of a file path, e.g. '@/db/schema/users'
+const PATH_ALIAS_PREFIXES = ['@/', '~/', '#'];
+
+type TopLevelStatement = Statement | ModuleDeclaration | Directive;
+
+// Where an exported name comes from: a binding of the module itself or another module's export
+type ModuleExport =
+  | { kind: 'local'; local: string }
+  | { kind: 'reexport'; module: string; imported: string };
+
+interface ExternalImport {
+  source: string;
+  imported: string;
+  local: string;
+}
+
+interface SchemaModule {
+  path: string;
+  index: number;
+  code: string;
+  program: Program;
+  // Top-level declarations, mapped to their name in the merged code
+  declarations: Map<string, string>;
+  exportedDeclarations: Set<string>;
+  imports: Map<string, { module: string; imported: string }>;
+  namespaces: Map<string, string>;
+  exports: Map<string, ModuleExport>;
+  starExports: string[];
+  externalImports: ExternalImport[];
+}
+
+// Normalize a virtual file path: forward slashes, no leading ./ or /, no . or .. segments
+export function normalizeSchemaPath(path: string): string {
+  const segments: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(segment => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+}
+
+// Merge a multi-file Drizzle schema into one module the parser can read:
+// - relative and aliased imports are resolved between the files, following export * and export { x as y } from
+// - aliased imports (import { users as u }) and namespace imports (schema.users) are renamed to the declared name
+// - declarations whose names clash between files are renamed, exported ones keep their names when possible
+// - package imports are kept once at the top
+// Renaming ignores shadowing, which schema files hardly ever rely on
+export function mergeSchemaFiles(files: SchemaFile[]): string {
+  const modules = new Map<string, SchemaModule>();
+  files.forEach((file, index) => {
+    const path = normalizeSchemaPath(file.path);
+    modules.set(path, createModule(path, index, file.content));
+  });
+
+  assignDeclarationNames(Array.from(modules.values()));
+
+  const externalImports: ExternalImport[] = [];
+  const chunks: string[] = [];
+  modules.forEach(schemaModule => {
+    schemaModule.externalImports.forEach(externalImport => {
+      if (!externalImports.some(existing => existing.local === externalImport.local)) {
+        externalImports.push(externalImport);
+      }
+    });
+    chunks.push(`// ${schemaModule.path}\n${rewriteModule(schemaModule, modules)}`);
+  });
+
+  return [formatExternalImports(externalImports), ...chunks].filter(Boolean).join('\n\n');
+}
+
+function parseModule(code: string): Program {
+  // @ts-expect-error - acorn-typescript has type compatibility issues
+  return Parser.extend(tsPlugin()).parse(code, {
+    sourceType: 'module',
+    ecmaVersion: 'latest',
+    locations: true,
+    allowImportExportEverywhere: true,
+    allowReturnOutsideFunction: true
+  }) as Program;
+}
+
+function createModule(path: string, index: number, code: string): SchemaModule {
+  const schemaModule: SchemaModule = {
+    path,
+    index,
+    code,
+    program: parseModule(code),
+    declarations: new Map(),
+    exportedDeclarations: new Set(),
+    imports: new Map(),
+    namespaces: new Map(),
+    exports: new Map(),
+    starExports: [],
+    externalImports: []
+  };
+  // Import sources are only resolved to files once every module is known
+  (schemaModule.program.body as TopLevelStatement[]).forEach(statement => {
+    switch (statement.type) {
+      case 'ImportDeclaration': {
+        // import type { ... } only matters to the compiler
+        if ((statement as { importKind?: string }).importKind === 'type') break;
+        const source = String(statement.source.value);
+        statement.specifiers.forEach(specifier => {
+          const imported = specifier.type === 'ImportSpecifier'
+            ? getExportName(specifier.imported)
+            : specifier.type === 'ImportDefaultSpecifier' ? 'default' : '*';
+          if (!isLocalSpecifier(source)) {
+            schemaModule.externalImports.push({ source, imported, local: specifier.local.name });
+          } else if (imported === '*') {
+            schemaModule.namespaces.set(specifier.local.name, source);
+          } else {
+            schemaModule.imports.set(specifier.local.name, { module: source, imported });
+          }
+        });
+        break;
+      }
+      case 'ExportNamedDeclaration':
+        if (statement.declaration) {
+          getDeclaredNames(statement.declaration).forEach(name => {
+            schemaModule.declarations.set(name, name);
+            schemaModule.exportedDeclarations.add(name);
+            schemaModule.exports.set(name, { kind: 'local', local: name });
+          });
+        } else {
+          const source = statement.source ? String(statement.source.value) : null;
+          statement.specifiers.forEach(specifier => {
+            const local = getExportName(specifier.local);
+            const exported = getExportName(specifier.exported);
+            schemaModule.exports.set(exported, source
+              ? { kind: 'reexport', module: source, imported: local }
+              : { kind: 'local', local });
+          });
+        }
+        break;
+      case 'ExportAllDeclaration':
+        if (!statement.exported) {
+          schemaModule.starExports.push(String(statement.source.value));
+        }
+        break;
+      case 'ExportDefaultDeclaration': {
+        const declaration = statement.declaration as Node;
+        if (declaration.type === 'Identifier') {
+          schemaModule.exports.set('default', { kind: 'local', local: declaration.name });
+        } else if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+          schemaModule.declarations.set(declaration.id.name, declaration.id.name);
+          schemaModule.exports.set('default', { kind: 'local', local: declaration.id.name });
+        }
+        break;
+      }
+      default:
+        getDeclaredNames(statement).forEach(name => schemaModule.declarations.set(name, name));
+    }
+  });
+
+  return schemaModule;
+}
+
+// Imports of other schema files: relative paths and project path aliases
+function isLocalSpecifier(source: string): boolean {
+  return source.startsWith('.') || PATH_ALIAS_PREFIXES.some(prefix => source.startsWith(prefix));
+}
+
+function getExportName(node: Identifier | { type: string; value?: unknown }): string {
+  return node.type === 'Identifier' ? (node as Identifier).name : String((node as { value?: unknown }).value);
+}
+
+function getDeclaredNames(node: Node): string[] {
+  switch (node.type) {
+    case 'VariableDeclaration':
+      return node.declarations.flatMap(declarator => declarator.id.type === 'Identifier' ? [declarator.id.name] : []);
+    case 'FunctionDeclaration':
+    case 'ClassDeclaration':
+      return node.id ? [node.id.name] : [];
+    default:
+      return [];
+  }
+}
+
+// Exported declarations claim their names first, so tables keep their identifiers;
+// later clashes get the module index appended
+function assignDeclarationNames(modules: SchemaModule[]) {
+  const taken = new Set<string>();
+  const claim = (schemaModule: SchemaModule, name: string) => {
+    let candidate = name;
+    for (let suffix = schemaModule.index; taken.has(candidate); suffix++) {
+      candidate = `${name}_${suffix}`;
+    }
+    taken.add(candidate);
+    schemaModule.declarations.set(name, candidate);
+  };
+
+  modules.forEach(schemaModule => schemaModule.exportedDeclarations.forEach(name => claim(schemaModule, name)));
+  modules.forEach(schemaModule => schemaModule.declarations.forEach((_, name) => {
+    if (!schemaModule.exportedDeclarations.has(name)) claim(schemaModule, name);
+  }));
+}
+
+// Find the file an import specifier points at, trying extensions, index files and path aliases
+function resolveModulePath(fromPath: string, source: string, modules: Map<string, SchemaModule>): string | undefined {
+  const candidates = (base: string) => {
+    const withoutJsExtension = base.replace(/\.(m?js|jsx)$/, '');
+    return [
+      base,
+      ...MODULE_EXTENSIONS.map(extension => `${withoutJsExtension}${extension}`),
+      ...MODULE_EXTENSIONS.map(extension => `${withoutJsExtension}/index${extension}`)
+    ];
+  };
+
+  if (source.startsWith('.')) {
+    const directory = fromPath.split('/').slice(0, -1).join('/');
+    return candidates(normalizeSchemaPath(`${directory}/${source}`)).find(candidate => modules.has(candidate));
+  }
+
+  // The files may be rooted anywhere in the project: @/db/schema/users is tried as db/schema/users,
+  // then schema/users, then users, preferring an exact path and then the one nearest the root
+  const prefix = PATH_ALIAS_PREFIXES.find(aliasPrefix => source.startsWith(aliasPrefix));
+  if (!prefix) return undefined;
+  const segments = normalizeSchemaPath(source.slice(prefix.length)).split('/');
+  const paths = Array.from(modules.keys());
+  for (let start = 0; start < segments.length; start++) {
+    const suffixes = candidates(segments.slice(start).join('/'));
+    const exact = suffixes.find(suffix => modules.has(suffix));
+    if (exact) return exact;
+    const matches = paths.filter(path => suffixes.some(suffix => path.endsWith(`/${suffix}`)));
+    if (matches.length > 0) {
+      return matches.reduce((nearest, path) => path.split('/').length < nearest.split('/').length ? path : nearest);
+    }
+  }
+  return undefined;
+}
+
+// Follow a local binding to its name in the merged code
+function resolveBinding(schemaModule: SchemaModule, local: string, modules: Map<string, SchemaModule>, seen: Set<string>): string | undefined {
+  const declared = schemaModule.declarations.get(local);
+  if (declared) return declared;
+
+  const binding = schemaModule.imports.get(local);
+  if (!binding) return undefined;
+  const target = resolveModulePath(schemaModule.path, binding.module, modules);
+  return target ? resolveExport(modules.get(target)!, binding.imported, modules, seen) : undefined;
+}
+
+// Follow an exported name through re-exports and export * to its name in the merged code
+function resolveExport(schemaModule: SchemaModule, exported: string, modules: Map<string, SchemaModule>, seen: Set<string>): string | undefined {
+  const key = `${schemaModule.path}:${exported}`;
+  if (seen.has(key)) return undefined;
+  seen.add(key);
+
+  const moduleExport = schemaModule.exports.get(exported);
+  if (moduleExport?.kind === 'local') {
+    return resolveBinding(schemaModule, moduleExport.local, modules, seen);
+  }
+  if (moduleExport?.kind === 'reexport') {
+    const target = resolveModulePath(schemaModule.path, moduleExport.module, modules);
+    return target ? resolveExport(modules.get(target)!, moduleExport.imported, modules, seen) : undefined;
+  }
+
+  // export * never re-exports the default export
+  if (exported === 'default') return undefined;
+  for (const source of schemaModule.starExports) {
+    const target = resolveModulePath(schemaModule.path, source, modules);
+    const resolved = target ? resolveExport(modules.get(target)!, exported, modules, seen) : undefined;
+    if (resolved) return resolved;
+  }
+  return undefined;
+}
+
+// Drop import/export-from statements and rename identifiers to their names in the merged code
+function rewriteModule(schemaModule: SchemaModule, modules: Map<string, SchemaModule>): string {
+  const renames = new Map<string, string>();
+  schemaModule.declarations.forEach((merged, local) => {
+    if (merged !== local) renames.set(local, merged);
+  });
+  schemaModule.imports.forEach((_, local) => {
+    const merged = resolveBinding(schemaModule, local, modules, new Set());
+    if (merged && merged !== local) renames.set(local, merged);
+  });
+  const namespaceModules = new Map<string, SchemaModule>();
+  schemaModule.namespaces.forEach((source, local) => {
+    const target = resolveModulePath(schemaModule.path, source, modules);
+    if (target) namespaceModules.set(local, modules.get(target)!);
+  });
+
+  const edits: { start: number; end: number; text: string }[] = [];
+  const rangeOf = (node: Node) => node as unknown as { start: number; end: number };
+
+  const visit = (node: Node, parent: Node | null, parentKey: string | null) => {
+    // schema.users from import * as schema
+    if (
+      node.type === 'MemberExpression' && !node.computed &&
+      node.object.type === 'Identifier' && node.property.type === 'Identifier' &&
+      namespaceModules.has(node.object.name)
+    ) {
+      const merged = resolveExport(namespaceModules.get(node.object.name)!, node.property.name, modules, new Set());
+      if (merged) {
+        edits.push({ ...rangeOf(node), text: merged });
+        return;
+      }
+    }
+
+    // { users } becomes { users: u_merged } when users is renamed
+    if (node.type === 'Property' && node.shorthand && node.key.type === 'Identifier' && renames.has(node.key.name)) {
+      edits.push({ ...rangeOf(node), text: `${node.key.name}: ${renames.get(node.key.name)}` });
+      return;
+    }
+
+    if (node.type === 'Identifier' && renames.has(node.name) && !isPropertyName(parent, parentKey)) {
+      edits.push({ ...rangeOf(node), text: renames.get(node.name)! });
+      return;
+    }
+
+    forEachChild(node, (child, key) => visit(child, node, key));
+  };
+
+  (schemaModule.program.body as TopLevelStatement[]).forEach(statement => {
+    const exportDefault = statement.type === 'ExportDefaultDeclaration' ? statement.declaration as Node : null;
+    if (
+      statement.type === 'ImportDeclaration' ||
+      statement.type === 'ExportAllDeclaration' ||
+      (statement.type === 'ExportNamedDeclaration' && !statement.declaration) ||
+      exportDefault?.type === 'Identifier'
+    ) {
+      edits.push({ ...rangeOf(statement), text: '' });
+      return;
+    }
+    if (exportDefault) {
+      // Keep the declaration or expression, drop the export default keywords
+      edits.push({ start: rangeOf(statement).start, end: rangeOf(exportDefault).start, text: '' });
+      visit(exportDefault, statement, 'declaration');
+      return;
+    }
+    visit(statement, null, null);
+  });
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((code, edit) => code.slice(0, edit.start) + edit.text + code.slice(edit.end), schemaModule.code)
+    .trim();
+}
+
+// Identifiers that name a property rather than reference a binding: obj.name, { name: value }, class members
+function isPropertyName(parent: Node | null, parentKey: string | null): boolean {
+  if (!parent || parentKey === null) return false;
+  if (parent.type === 'MemberExpression') return parentKey === 'property' && !parent.computed;
+  if (parent.type === 'Property' || parent.type === 'MethodDefinition' || parent.type === 'PropertyDefinition') {
+    return parentKey === 'key' && !parent.computed;
+  }
+  return false;
+}
+
+function forEachChild(node: Node, callback: (child: Node, key: string) => void) {
+  for (const key in node) {
+    if (key === 'parent' || key === 'loc') continue;
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(child)) {
+      child.forEach(item => {
+        if (item && typeof item === 'object' && typeof item.type === 'string') callback(item as Node, key);
+      });
+    } else if (child && typeof child === 'object' && typeof (child as { type?: unknown }).type === 'string') {
+      callback(child as Node, key);
+    }
+  }
+}
+
+function formatExternalImports(externalImports: ExternalImport[]): string {
+  const sources = Array.from(new Set(externalImports.map(externalImport => externalImport.source)));
+  return sources.flatMap(source => {
+    const sourceImports = externalImports.filter(externalImport => externalImport.source === source);
+    const statements: string[] = [];
+    const named = sourceImports
+      .filter(externalImport => externalImport.imported !== 'default' && externalImport.imported !== '*')
+      .map(({ imported, local }) => imported === local ? local : `${imported} as ${local}`);
+    if (named.length > 0) statements.push(`import { ${named.join(', ')} } from '${source}';`);
+    sourceImports
+      .filter(externalImport => externalImport.imported === 'default')
+      .forEach(({ local }) => statements.push(`import ${local} from '${source}';`));
+    sourceImports
+      .filter(externalImport => externalImport.imported === '*')
+      .forEach(({ local }) => statements.push(`import * as ${local} from '${source}';`));
+    return statements;
+  }).join('\n');
+}
@@ -1,19 +1,40 @@
-import { Parser } from 'acorn';
+import { Comment, Parser } from 'acorn';
 import tsPlugin from 'acorn-typescript';
 import { 
   ParsedColumn, 
   ParsedTable, 
   ParsedRelationship, 
+  CasingSetting,
+  ColumnCasing,
   ParseResult,
-  ParsedEnum
+  ParsedEnum,
+  ParsedIndex,
+  ParsedIndexKey,
+  ParsedView,
+  ParsedConstraint,
+  ParsedPolicy,
+  ParsedRole,
+  ParsedSequence,
+  ParsedColumnDefault,
+  DatabaseDialect,
+  SchemaFile
 } from '@/types/drizzle';
 import { 
   generateTablePosition, 
   generateRelationshipId, 
+  isUniqueKey,
   parseColumnModifiers, 
-  extractReferences 
+  extractReferences,
+  detectDrizzleDialect,
+  resolveColumnCasing,
+  applyColumnCasing,
+  resolveRelationships,
+  normalizeReferentialAction,
+  parseDefaultModifiers
 } from './drizzle-utils';
-import { Node, VariableDeclaration, CallExpression, ObjectExpression, Identifier, Literal, Property, MemberExpression, ArrayExpression, ArrowFunctionExpression, VariableDeclarator, Pattern, SpreadElement, Expression } from 'estree';
+import { mergeSchemaFiles } from './drizzle-modules';
+import { SchemaHelpers, collectSchemaHelpers, foldExpression } from './drizzle-evaluator';
+import { Node, Program, VariableDeclaration, CallExpression, ObjectExpression, Identifier, Literal, Property, MemberExpression, ArrayExpression, ArrowFunctionExpression, VariableDeclarator, Pattern, SpreadElement, Expression, TaggedTemplateExpression } from 'estree';
 
 // Type guards to narrow down node types
 const isIdentifier = (node: Node | Pattern | Expression | SpreadElement | null): node is Identifier => node?.type === 'Identifier';
@@ -25,9 +46,119 @@ const isLiteral = (node: Node | Pattern | Expression | SpreadElement | null): no
 const isArrowFunctionExpression = (node: Node | Expression | SpreadElement): node is ArrowFunctionExpression => node?.type === 'ArrowFunctionExpression';
 const isProperty = (node: Property | SpreadElement | null | undefined): node is Property => node?.type === 'Property';
 
+// Table builders and table creators for each dialect
+const TABLE_BUILDERS: { [key: string]: DatabaseDialect } = {
+  pgTable: 'postgresql',
+  mysqlTable: 'mysql',
+  sqliteTable: 'sqlite'
+};
+
+const TABLE_CREATORS: { [key: string]: DatabaseDialect } = {
+  pgTableCreator: 'postgresql',
+  mysqlTableCreator: 'mysql',
+  sqliteTableCreator: 'sqlite'
+};
+
+// Database schema (namespace) builders, e.g. const billing = pgSchema('billing')
+const SCHEMA_BUILDERS = ['pgSchema', 'mysqlSchema'];
+
+// View builders, and whether they create a materialized view
+const VIEW_BUILDERS: { [key: string]: boolean } = {
+  pgView: false,
+  pgMaterializedView: true,
+  mysqlView: false,
+  sqliteView: false
+};
+
+// Predefined roles exported by drizzle-orm/supabase
+const SUPABASE_ROLES: { [key: string]: string } = {
+  anonRole: 'anon',
+  authenticatedRole: 'authenticated',
+  serviceRole: 'service_role',
+  postgresRole: 'postgres_role',
+  supabaseAuthAdminRole: 'supabase_auth_admin'
+};
+
+// Query builder methods that read from a table or view
+const QUERY_SOURCE_METHODS = ['from', 'leftJoin', 'rightJoin', 'innerJoin', 'fullJoin', 'crossJoin'];
+
+// Map Drizzle column builders to more readable SQL types, per dialect
+const COLUMN_TYPE_MAPPINGS: Record<DatabaseDialect, { [key: string]: string }> = {
+  postgresql: {
+    'bigint': 'bigint',
+    'bigserial': 'bigserial', 
+    'bit': 'bit',
+    'boolean': 'boolean',
+    'bytea': 'bytea',
+    'char': 'char',
+    'cidr': 'cidr',
+    'date': 'date',
+    'doublePrecision': 'double precision',
+    'inet': 'inet',
+    'integer': 'integer',
+    'interval': 'interval',
+    'json': 'json',
+    'jsonb': 'jsonb',
+    'macaddr': 'macaddr',
+    'macaddr8': 'macaddr8',
+    'numeric': 'numeric',
+    'decimal': 'decimal',
+    'pgEnum': 'enum',
+    'point': 'point',
+    'real': 'real',
+    'serial': 'serial',
+    'smallint': 'smallint',
+    'smallserial': 'smallserial',
+    'text': 'text',
+    'time': 'time',
+    'timestamp': 'timestamp',
+    'timestamptz': 'timestamptz',
+    'uuid': 'uuid',
+    'varchar': 'varchar',
+    'vector': 'vector',
+    'xml': 'xml'
+  },
+  mysql: {
+    'bigint': 'bigint',
+    'binary': 'binary',
+    'boolean': 'boolean',
+    'char': 'char',
+    'date': 'date',
+    'datetime': 'datetime',
+    'decimal': 'decimal',
+    'double': 'double',
+    'float': 'float',
+    'int': 'int',
+    'json': 'json',
+    'longtext': 'longtext',
+    'mediumint': 'mediumint',
+    'mediumtext': 'mediumtext',
+    'mysqlEnum': 'enum',
+    'real': 'real',
+    'serial': 'serial',
+    'smallint': 'smallint',
+    'text': 'text',
+    'time': 'time',
+    'timestamp': 'timestamp',
+    'tinyint': 'tinyint',
+    'tinytext': 'tinytext',
+    'varbinary': 'varbinary',
+    'varchar': 'varchar',
+    'year': 'year'
+  },
+  sqlite: {
+    'blob': 'blob',
+    'integer': 'integer',
+    'int': 'integer',
+    'numeric': 'numeric',
+    'real': 'real',
+    'text': 'text'
+  }
+};
+
 
 // Parse Drizzle ORM schema using acorn-typescript
-export function parseDrizzleSchema(schemaCode: string): ParseResult {
+export function parseDrizzleSchema(schemaCode: string, casingSetting: CasingSetting = 'auto'): ParseResult {
   try {
     // Validate input
     if (!schemaCode || typeof schemaCode !== 'string') {
@@ -37,7 +168,8 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
       };
     }
 
-    // Clean the schema code - remove comments and normalize whitespace
+    // Leave comments out of the checks below, so commented-out code does not count;
+    // the AST is built from the code as written, keeping JSDoc comments for descriptions
     const cleanedCode = schemaCode
       .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
       .replace(/\/\/.*$/gm, '') // Remove line comments
@@ -51,7 +183,7 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
     }
 
     // Check if the code looks like a Drizzle schema
-    if (!cleanedCode.includes('pgTable') && !cleanedCode.includes('mysqlTable') && !cleanedCode.includes('sqliteTable')) {
+    if (!/\b(pgTable|mysqlTable|sqliteTable|pgSchema|mysqlSchema)/.test(cleanedCode)) {
       return {
         success: false,
         error: 'No Drizzle table definitions found. Make sure you have pgTable(), mysqlTable(), or sqliteTable() calls.'
@@ -59,50 +191,114 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
     }
 
     let ast: Node;
+    const comments: Comment[] = [];
     try {
       // @ts-expect-error - acorn-typescript has type compatibility issues
-      ast = Parser.extend(tsPlugin()).parse(cleanedCode, {
+      ast = Parser.extend(tsPlugin()).parse(schemaCode, {
         sourceType: 'module',
         ecmaVersion: 'latest',
         locations: true,
         allowImportExportEverywhere: true,
-        allowReturnOutsideFunction: true
+        allowReturnOutsideFunction: true,
+        onComment: comments
       }) as Node;
     } catch (parseError) {
       console.warn('AST parsing failed, trying fallback parser:', parseError);
-      return parseDrizzleSchemaFallback(schemaCode);
+      return parseDrizzleSchemaFallback(schemaCode, casingSetting);
     }
 
     const tables: ParsedTable[] = [];
     const relationships: ParsedRelationship[] = [];
     const enums: ParsedEnum[] = [];
-    const sharedSchemas: { [key: string]: ObjectExpression } = {};
+    const helpers = collectSchemaHelpers(ast as Program);
+    const tableFactories: { [key: string]: DatabaseDialect } = {};
+    const databaseSchemas: { [key: string]: string } = {};
+    const roles: ParsedRole[] = [];
+    const sequences: ParsedSequence[] = [];
+    // SQL type emitted by each customType, e.g. citext -> 'citext'
+    const customTypes: { [key: string]: string } = {};
+    const dialect = detectDrizzleDialect(cleanedCode);
+    const casing = resolveColumnCasing(cleanedCode, casingSetting);
 
-    // First pass: find shared schemas (like auditSchema) and enums
+    // First pass: find database schemas, table creators and enums
     walkAST(ast, (node: Node) => {
       if (node.type === 'VariableDeclaration') {
         node.declarations.forEach((declaration: VariableDeclarator) => {
-          // Find pgEnum declarations
+          // Find pgEnum declarations, including schema enums like billing.enum(...)
           if (
             declaration.init &&
             isCallExpression(declaration.init) &&
-            isIdentifier(declaration.init.callee) &&
-            declaration.init.callee.name === 'pgEnum'
+            ((isIdentifier(declaration.init.callee) && declaration.init.callee.name === 'pgEnum') ||
+              (isMemberExpression(declaration.init.callee) &&
+                isIdentifier(declaration.init.callee.object) &&
+                databaseSchemas[declaration.init.callee.object.name] &&
+                isIdentifier(declaration.init.callee.property) &&
+                declaration.init.callee.property.name === 'enum'))
           ) {
-            const enumData = parseEnumFromAST(declaration);
+            const enumData = parseEnumFromAST(declaration, databaseSchemas, schemaCode, comments);
             if (enumData) {
               enums.push(enumData);
             }
           }
-          // Find shared schema objects
-          else if (declaration.init && isObjectExpression(declaration.init) && isIdentifier(declaration.id)) {
-            sharedSchemas[declaration.id.name] = declaration.init;
+          // Find database schemas, e.g. const billing = pgSchema('billing')
+          else if (
+            declaration.init &&
+            isCallExpression(declaration.init) &&
+            isIdentifier(declaration.init.callee) &&
+            SCHEMA_BUILDERS.includes(declaration.init.callee.name) &&
+            isIdentifier(declaration.id) &&
+            declaration.init.arguments[0] &&
+            isLiteral(declaration.init.arguments[0])
+          ) {
+            databaseSchemas[declaration.id.name] = String(declaration.init.arguments[0].value);
+          }
+          // Find roles, e.g. const admin = pgRole('admin', { createRole: true })
+          else if (declaration.init && isCallExpression(declaration.init) && getCallChain(declaration.init)?.name === 'pgRole') {
+            const role = parseRoleFromAST(declaration);
+            if (role) {
+              roles.push(role);
+            }
+          }
+          // Find sequences, e.g. const orderNumber = pgSequence('order_number', { startWith: 1000 }) or billing.sequence(...)
+          else if (
+            declaration.init &&
+            isCallExpression(declaration.init) &&
+            ((isIdentifier(declaration.init.callee) && declaration.init.callee.name === 'pgSequence') ||
+              (isMemberExpression(declaration.init.callee) &&
+                isIdentifier(declaration.init.callee.property) &&
+                declaration.init.callee.property.name === 'sequence' &&
+                getDatabaseSchemaName(declaration.init.callee.object, databaseSchemas)))
+          ) {
+            const sequence = parseSequenceFromAST(declaration, databaseSchemas);
+            if (sequence) {
+              sequences.push(sequence);
+            }
+          }
+          // Find custom types, e.g. const citext = customType<{ data: string }>({ dataType() { return 'citext'; } })
+          else if (
+            declaration.init &&
+            isCallExpression(declaration.init) &&
+            isIdentifier(declaration.init.callee) &&
+            declaration.init.callee.name === 'customType' &&
+            isIdentifier(declaration.id)
+          ) {
+            customTypes[declaration.id.name] = getCustomDataType(declaration.init) ?? declaration.id.name;
+          }
+          // Find table factories, e.g. const createTable = pgTableCreator((name) => `app_${name}`)
+          else if (
+            declaration.init &&
+            isCallExpression(declaration.init) &&
+            isIdentifier(declaration.init.callee) &&
+            TABLE_CREATORS[declaration.init.callee.name] &&
+            isIdentifier(declaration.id)
+          ) {
+            tableFactories[declaration.id.name] = TABLE_CREATORS[declaration.init.callee.name];
           }
         });
       }
     });
 
-    // Second pass: find tables and apply shared schemas
+    // Second pass: find tables, inlining shared columns and helpers
     walkAST(ast, (node: Node) => {
       // Look for export const declarations that define tables
       if (
@@ -117,17 +313,21 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
           declaration.init &&
           isCallExpression(declaration.init)
         ) {
-          // Handle direct pgTable calls
-          if (isIdentifier(declaration.init.callee) && ['pgTable', 'pgTableCreator'].includes(declaration.init.callee.name)) {
-            const table = parseTableFromAST(declaration, tables.length, sharedSchemas);
+          // A trailing .enableRLS() wraps the table call
+          const tableCall = getTableCall(declaration.init);
+          const tableDialect = getTableBuilderDialect(tableCall, tableFactories);
+          // Handle direct pgTable/mysqlTable/sqliteTable calls and table creators
+          if (tableDialect) {
+            const table = parseTableFromAST(declaration, tables.length, helpers, tableDialect, relationships, schemaCode, enums, roles, customTypes, casing, comments);
             if (table) {
               tables.push(table);
             }
           }
           // Handle schema.table() calls (custom schemas)
-          else if (isMemberExpression(declaration.init.callee) && isIdentifier(declaration.init.callee.property) && declaration.init.callee.property.name === 'table') {
-            const table = parseTableFromAST(declaration, tables.length, sharedSchemas);
+          else if (isMemberExpression(tableCall.callee) && isIdentifier(tableCall.callee.property) && tableCall.callee.property.name === 'table') {
+            const table = parseTableFromAST(declaration, tables.length, helpers, dialect, relationships, schemaCode, enums, roles, customTypes, casing, comments);
             if (table) {
+              table.schema = getDatabaseSchemaName(tableCall.callee.object, databaseSchemas);
               tables.push(table);
             }
           }
@@ -135,18 +335,72 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
       }
     });
 
-    // Third pass: find relations
+    // Find standalone policies linked to a table, e.g. pgPolicy('name', { ... }).link(users)
+    walkAST(ast, (node: Node) => {
+      if (node.type !== 'VariableDeclaration') return;
+      node.declarations.forEach((declaration: VariableDeclarator) => {
+        const chain = declaration.init ? getCallChain(declaration.init) : null;
+        const linkCall = chain?.name === 'pgPolicy' ? chain.calls.find(call => getCalleeName(call) === 'link') : undefined;
+        const linkedTable = linkCall?.arguments[0];
+        const table = linkedTable && isIdentifier(linkedTable) ? tables.find(t => t.id === linkedTable.name) : undefined;
+        if (!chain || !table) return;
+
+        const policy = parsePolicyFromAST(chain.base, table.id, roles, schemaCode);
+        if (policy) {
+          table.policies = [...(table.policies ?? []), policy];
+          table.isRlsEnabled = true;
+        }
+      });
+    });
+
+    // Columns drawing their default from a sequence, e.g. .default(sql`nextval('order_number')`)
+    sequences.forEach(sequence => {
+      tables.forEach(table => {
+        table.columns.forEach(column => {
+          const nextValMatch = column.defaultValue?.kind === 'sql' ? column.defaultValue.value.match(/nextval\(\s*'([^']+)'/) : null;
+          const sequenceName = nextValMatch ? nextValMatch[1].split('.').pop()?.replace(/"/g, '') : undefined;
+          if (sequenceName === sequence.name) {
+            sequence.usedBy.push({ table: table.id, column: column.name });
+          }
+        });
+      });
+    });
+
+    // Find views, after the tables so their columns can be resolved
+    const views: ParsedView[] = [];
+    walkAST(ast, (node: Node) => {
+      if (node.type === 'VariableDeclaration') {
+        node.declarations.forEach((declaration: VariableDeclarator) => {
+          const view = parseViewFromAST(declaration, tables.length + views.length, tables, views, databaseSchemas, dialect, schemaCode, enums, customTypes, casing, comments);
+          if (view) {
+            views.push(view);
+          }
+        });
+      }
+    });
+
+    // pgTable() tables live in the public schema once other schemas are in play
+    if (dialect === 'postgresql' && [...tables, ...views, ...enums].some(item => item.schema)) {
+      [...tables, ...views, ...enums].forEach(item => {
+        item.schema = item.schema ?? 'public';
+      });
+    }
+
+    // Third pass: find relations, relations(table, ...) and defineRelations(schema, (r) => ...)
     walkAST(ast, (node: Node) => {
       if (
         node.type === 'VariableDeclaration' &&
         node.declarations[0] &&
         node.declarations[0].init &&
         isCallExpression(node.declarations[0].init) &&
-        isIdentifier(node.declarations[0].init.callee) &&
-        node.declarations[0].init.callee.name === 'relations'
+        isIdentifier(node.declarations[0].init.callee)
       ) {
-        const rels = parseRelationsFromAST(node.declarations[0]);
-        relationships.push(...rels);
+        const calleeName = node.declarations[0].init.callee.name;
+        if (calleeName === 'relations') {
+          relationships.push(...parseRelationsFromAST(node.declarations[0], relationships));
+        } else if (calleeName === 'defineRelations' || calleeName === 'defineRelationsPart') {
+          relationships.push(...parseDefineRelationsFromAST(node.declarations[0].init, tables, relationships, schemaCode));
+        }
       }
     });
 
@@ -161,29 +415,44 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
         node.type === 'VariableDeclaration' &&
         node.declarations[0] &&
         node.declarations[0].init &&
-        isCallExpression(node.declarations[0].init) &&
-        isIdentifier(node.declarations[0].init.callee) &&
-        ['index', 'uniqueIndex'].includes(node.declarations[0].init.callee.name)
+        isCallExpression(node.declarations[0].init)
       ) {
-        parseIndexFromAST(node.declarations[0], tableMap);
+        const chain = getCallChain(node.declarations[0].init);
+        if (chain && ['index', 'uniqueIndex'].includes(chain.name)) {
+          parseIndexFromAST(node.declarations[0], tableMap, schemaCode);
+        }
       }
     });
 
     // Extract relationships from the tables (for inline references)
     tables.forEach(table => {
       table.columns.forEach(column => {
-        if (column.references) {
+        if (!column.references) return;
+
+        // Columns of a table-level foreignKey() or a one() relation already have their
+        // relationship; only carry over the referential actions
+        const covering = relationships.find(rel => rel.source === table.id && rel.sourceColumns.includes(column.name));
+        if (covering) {
+          covering.onDelete = covering.onDelete ?? column.references.onDelete;
+          covering.onUpdate = covering.onUpdate ?? column.references.onUpdate;
+        } else {
           relationships.push({
             id: generateRelationshipId(table.id, column.name, column.references.table),
             source: table.id,
             target: column.references.table,
             sourceColumn: column.name,
-            targetColumn: column.references.column
+            targetColumn: column.references.column,
+            sourceColumns: [column.name],
+            targetColumns: [column.references.column],
+            cardinality: 'many-to-one',
+            onDelete: column.references.onDelete,
+            onUpdate: column.references.onUpdate
           });
         }
       });
     });
 
+
     // Validate parsed data
     if (tables.length === 0 && enums.length === 0) {
       return {
@@ -196,15 +465,20 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
       success: true,
       data: {
         tables,
-        relationships,
-        enums
+        views,
+        relationships: resolveRelationships(tables, relationships),
+        enums,
+        sequences,
+        roles,
+        dialect,
+        casing
       }
     };
   } catch (error) {
     console.error('Error parsing Drizzle schema:', error);
     // Try fallback parser as last resort
     try {
-      return parseDrizzleSchemaFallback(schemaCode);
+      return parseDrizzleSchemaFallback(schemaCode, casingSetting);
     } catch {
       return {
         success: false,
@@ -214,8 +488,46 @@ export function parseDrizzleSchema(schemaCode: string): ParseResult {
   }
 }
 
-// Helper to parse relations
-function parseRelationsFromAST(declaration: VariableDeclarator): ParsedRelationship[] {
+// Helper to resolve the dialect of a table builder call, e.g. mysqlTable(...),
+// createTable(...) from a table creator, or sqliteTableCreator(fn)(...)
+function getTableBuilderDialect(callExpression: CallExpression, tableFactories: { [key: string]: DatabaseDialect }): DatabaseDialect | null {
+  const callee = callExpression.callee;
+  if (isIdentifier(callee)) {
+    return TABLE_BUILDERS[callee.name] || tableFactories[callee.name] || null;
+  }
+  if (isCallExpression(callee) && isIdentifier(callee.callee)) {
+    return TABLE_CREATORS[callee.callee.name] || null;
+  }
+  // pgTable.withRLS('name', { ... })
+  if (isMemberExpression(callee) && isIdentifier(callee.object) && isIdentifier(callee.property) && callee.property.name === 'withRLS') {
+    return TABLE_BUILDERS[callee.object.name] || null;
+  }
+  return null;
+}
+
+// Helper to strip a trailing .enableRLS() from a table definition
+function getTableCall(callExpression: CallExpression): CallExpression {
+  const callee = callExpression.callee;
+  if (isMemberExpression(callee) && isIdentifier(callee.property) && callee.property.name === 'enableRLS' && isCallExpression(callee.object)) {
+    return callee.object;
+  }
+  return callExpression;
+}
+
+// Helper to find a relationship already parsed for the same columns, e.g. from a table-level foreignKey()
+function findSameRelationship(relationships: ParsedRelationship[], rel: ParsedRelationship): ParsedRelationship | undefined {
+  const sameColumns = (a: string[], b: string[]) => a.length === b.length && a.every((column, index) => column === b[index]);
+  return relationships.find(other =>
+    other.source === rel.source &&
+    other.target === rel.target &&
+    (other.name === undefined || other.name === rel.name) &&
+    sameColumns(other.sourceColumns, rel.sourceColumns) &&
+    sameColumns(other.targetColumns, rel.targetColumns)
+  );
+}
+
+// Helper to parse relations; a one() relation on the columns of a foreignKey() is merged into it
+function parseRelationsFromAST(declaration: VariableDeclarator, existing: ParsedRelationship[]): ParsedRelationship[] {
   const parsedRelations: ParsedRelationship[] = [];
   try {
     if (!declaration.init || !isCallExpression(declaration.init)) return [];
@@ -235,44 +547,68 @@ function parseRelationsFromAST(declaration: VariableDeclarator): ParsedRelations
       if (!isProperty(prop) || !isCallExpression(prop.value)) return;
       const relCall = prop.value;
 
-      if (!isIdentifier(relCall.callee)) return;
+      if (!isIdentifier(relCall.callee) || !isIdentifier(prop.key)) return;
       const relType = relCall.callee.name; // 'one' or 'many'
-      
-      if (relType === 'one' && relCall.arguments.length > 1) {
-        const targetTableNode = relCall.arguments[0];
-        if (!isIdentifier(targetTableNode)) return;
-        const targetTableName = targetTableNode.name;
-
-        const config = relCall.arguments[1];
-        if (config && isObjectExpression(config)) {
-          const fieldsProp = config.properties.find((p): p is Property => isProperty(p) && isIdentifier(p.key) && p.key.name === 'fields');
-          const referencesProp = config.properties.find((p): p is Property => isProperty(p) && isIdentifier(p.key) && p.key.name === 'references');
-          
-          if (fieldsProp && referencesProp && isArrayExpression(fieldsProp.value) && isArrayExpression(referencesProp.value)) {
-            const fieldsElements = fieldsProp.value.elements;
-            const refsElements = referencesProp.value.elements;
-
-            if (fieldsElements.length > 0 && refsElements.length > 0) {
-              const sourceElement = fieldsElements[0];
-              const refElement = refsElements[0];
-
-              if (isMemberExpression(sourceElement) && isMemberExpression(refElement) && isIdentifier(sourceElement.property) && isIdentifier(refElement.property)) {
-                const sourceColumn = sourceElement.property.name;
-                const targetColumn = refElement.property.name;
-                
-                parsedRelations.push({
-                  id: generateRelationshipId(sourceTableName, sourceColumn, targetTableName),
-                  source: sourceTableName,
-                  target: targetTableName,
-                  sourceColumn: sourceColumn,
-                  targetColumn: targetColumn
-                });
-              }
+      const relationField = prop.key.name;
+      if (relType !== 'one' && relType !== 'many') return;
+
+      const targetTableNode = relCall.arguments[0];
+      if (!isIdentifier(targetTableNode)) return;
+      const targetTableName = targetTableNode.name;
+
+      // relationName pairs both sides when several relations join the same tables
+      const config = relCall.arguments[1];
+      const relationNameNode = config && isObjectExpression(config) ? getObjectProperty(config, 'relationName') : null;
+      const relationName = relationNameNode && isLiteral(relationNameNode) ? String(relationNameNode.value) : undefined;
+
+      // one(table, { fields, references }) is the side holding the foreign key
+      if (relType === 'one' && config && isObjectExpression(config)) {
+        const fieldsProp = config.properties.find((p): p is Property => isProperty(p) && isIdentifier(p.key) && p.key.name === 'fields');
+        const referencesProp = config.properties.find((p): p is Property => isProperty(p) && isIdentifier(p.key) && p.key.name === 'references');
+        
+        if (fieldsProp && referencesProp && isArrayExpression(fieldsProp.value) && isArrayExpression(referencesProp.value)) {
+          const sourceColumns = getColumnNames(fieldsProp.value.elements);
+          const targetColumns = getColumnNames(referencesProp.value.elements);
+
+          if (sourceColumns.length > 0 && targetColumns.length > 0) {
+            const rel: ParsedRelationship = {
+              id: generateRelationshipId(sourceTableName, sourceColumns, targetTableName, relationName),
+              source: sourceTableName,
+              target: targetTableName,
+              sourceColumn: sourceColumns[0],
+              targetColumn: targetColumns[0],
+              sourceColumns,
+              targetColumns,
+              cardinality: 'many-to-one',
+              name: relationName,
+              sourceField: relationField
+            };
+            const match = findSameRelationship(existing, rel);
+            if (match) {
+              match.name = match.name ?? rel.name;
+              match.sourceField = match.sourceField ?? rel.sourceField;
+            } else {
+              parsedRelations.push(rel);
             }
           }
+          return;
         }
       }
-      // 'many' relations are not visualized as direct connectors in this context
+
+      // many(table) and one(table) without fields are back-references; their
+      // columns are taken from the inverse relation once everything is parsed
+      parsedRelations.push({
+        id: generateRelationshipId(sourceTableName, relationField, targetTableName, relationName),
+        source: sourceTableName,
+        target: targetTableName,
+        sourceColumn: '',
+        targetColumn: '',
+        sourceColumns: [],
+        targetColumns: [],
+        cardinality: relType === 'many' ? 'one-to-many' : 'one-to-one',
+        name: relationName,
+        sourceField: relationField
+      });
     });
   } catch (error) {
     console.error('Error parsing relations from AST:', error);
@@ -280,47 +616,758 @@ function parseRelationsFromAST(declaration: VariableDeclarator): ParsedRelations
   return parsedRelations;
 }
 
-// Helper to parse indexes
-function parseIndexFromAST(declaration: VariableDeclarator, tableMap: { [key: string]: ParsedTable }) {
+// Helper to parse the relational API v2:
+// defineRelations(schema, (r) => ({ posts: { author: r.one.users({ from: r.posts.authorId, to: r.users.id }) } }))
+// Each relation is stored from the side holding the foreign key, so both sides of a pair merge into one;
+// through() junction columns make a many-to-many relation, and many() without from/to is a back-reference
+function parseDefineRelationsFromAST(
+  call: CallExpression,
+  tables: ParsedTable[],
+  existing: ParsedRelationship[],
+  schemaCode: string
+): ParsedRelationship[] {
+  const parsedRelations: ParsedRelationship[] = [];
   try {
-    if (!declaration.init || !isCallExpression(declaration.init) || !isIdentifier(declaration.id)) return;
-    const callExpression = declaration.init;
-    const indexName = declaration.id.name;
+    const callback = call.arguments[call.arguments.length - 1];
+    if (!callback || !isArrowFunctionExpression(callback) || !isIdentifier(callback.params[0])) return [];
+    const builderName = callback.params[0].name;
+    const relationsObject = callback.body.type === 'BlockStatement'
+      ? callback.body.body.find(statement => statement.type === 'ReturnStatement')?.argument
+      : callback.body;
+    if (!relationsObject || !isObjectExpression(relationsObject)) return [];
 
-    if (!isIdentifier(callExpression.callee)) return;
-    const isUnique = callExpression.callee.name === 'uniqueIndex';
+    const getTable = (id: string) => tables.find(table => table.id === id);
 
-    const onCall = callExpression.arguments[0];
-    if(isCallExpression(onCall) && isMemberExpression(onCall.callee) && isIdentifier(onCall.callee.property) && onCall.callee.property.name === 'on') {
-        const columns = onCall.arguments.map((col) => {
-            if(isMemberExpression(col) && isIdentifier(col.property)) {
-                return col.property.name;
-            }
-            return '';
-        }).filter(Boolean);
-        
-        const onTableExpression = onCall.callee.object;
-        if(isMemberExpression(onTableExpression) && isIdentifier(onTableExpression.object)) {
-          const onTable = onTableExpression.object.name;
-          const table = tableMap[onTable];
-
-          if (table) {
-              table.indexes.push({
-                  name: indexName,
-                  columns,
-                  isUnique
-              });
+    // Merge a relation into one already parsed for the same columns, e.g. the other side of the pair
+    const addRelation = (rel: ParsedRelationship) => {
+      const match = findSameRelationship([...existing, ...parsedRelations], rel);
+      if (!match) {
+        parsedRelations.push(rel);
+        return;
+      }
+      match.name = match.name ?? rel.name;
+      match.sourceField = match.sourceField ?? rel.sourceField;
+      match.targetField = match.targetField ?? rel.targetField;
+      match.isOptional = match.isOptional ?? rel.isOptional;
+      match.where = match.where ?? rel.where;
+      if (rel.cardinality === 'one-to-one') match.cardinality = 'one-to-one';
+    };
+
+    relationsObject.properties.forEach((tableProp) => {
+      if (!isProperty(tableProp) || !isObjectExpression(tableProp.value)) return;
+      const sourceTableName = isIdentifier(tableProp.key) ? tableProp.key.name : isLiteral(tableProp.key) ? String(tableProp.key.value) : null;
+      if (!sourceTableName) return;
+
+      tableProp.value.properties.forEach((prop) => {
+        if (!isProperty(prop) || !isIdentifier(prop.key) || !isCallExpression(prop.value)) return;
+        const relationField = prop.key.name;
+
+        // r.one.users(...) or r.many.posts(...)
+        const callee = prop.value.callee;
+        if (
+          !isMemberExpression(callee) ||
+          !isIdentifier(callee.property) ||
+          !isMemberExpression(callee.object) ||
+          !isIdentifier(callee.object.object) ||
+          callee.object.object.name !== builderName ||
+          !isIdentifier(callee.object.property)
+        ) return;
+        const relType = callee.object.property.name;
+        const targetTableName = callee.property.name;
+        if (relType !== 'one' && relType !== 'many') return;
+
+        const config = prop.value.arguments[0];
+        const options = config && isObjectExpression(config) ? config : null;
+        const aliasNode = options ? getObjectProperty(options, 'alias') : null;
+        const optionalNode = options ? getObjectProperty(options, 'optional') : null;
+        const whereNode = options ? getObjectProperty(options, 'where') : null;
+        const relationName = aliasNode && isLiteral(aliasNode) ? String(aliasNode.value) : undefined;
+        const isOptional = optionalNode && isLiteral(optionalNode) && typeof optionalNode.value === 'boolean' ? optionalNode.value : undefined;
+        const where = whereNode ? getNodeSource(whereNode, schemaCode).replace(/\s+/g, ' ') : undefined;
+
+        const fromNode = options ? getObjectProperty(options, 'from') : null;
+        const toNode = options ? getObjectProperty(options, 'to') : null;
+        const from = fromNode ? getRelationColumnRefs(fromNode, builderName) : [];
+        const to = toNode ? getRelationColumnRefs(toNode, builderName) : [];
+        const sourceColumns = from.map(ref => ref.column);
+        const targetColumns = to.map(ref => ref.column);
+
+        // many() and one() without columns take them from the inverse relation
+        if (sourceColumns.length === 0 || targetColumns.length === 0) {
+          parsedRelations.push({
+            id: generateRelationshipId(sourceTableName, relationField, targetTableName, relationName),
+            source: sourceTableName,
+            target: targetTableName,
+            sourceColumn: '',
+            targetColumn: '',
+            sourceColumns: [],
+            targetColumns: [],
+            cardinality: relType === 'many' ? 'one-to-many' : 'one-to-one',
+            name: relationName,
+            sourceField: relationField,
+            isOptional,
+            where
+          });
+          return;
+        }
+
+        // from: r.users.id.through(r.usersToGroups.userId), to: r.groups.id.through(r.usersToGroups.groupId)
+        const throughTable = from[0].through?.table;
+        if (throughTable && to.every(ref => ref.through?.table === throughTable)) {
+          const through = {
+            table: throughTable,
+            sourceColumns: from.map(ref => ref.through?.column ?? ''),
+            targetColumns: to.map(ref => ref.through?.column ?? '')
+          };
+          // The inverse side of a many-to-many relation only names its field
+          const inverse = [...existing, ...parsedRelations].find(other =>
+            other.cardinality === 'many-to-many' &&
+            other.source === targetTableName &&
+            other.target === sourceTableName &&
+            other.through?.table === throughTable &&
+            (other.name ?? '') === (relationName ?? '')
+          );
+          if (inverse) {
+            inverse.targetField = inverse.targetField ?? relationField;
+            return;
           }
+          parsedRelations.push({
+            id: generateRelationshipId(sourceTableName, sourceColumns, targetTableName, relationName ?? throughTable),
+            source: sourceTableName,
+            target: targetTableName,
+            sourceColumn: sourceColumns[0],
+            targetColumn: targetColumns[0],
+            sourceColumns,
+            targetColumns,
+            cardinality: relType === 'many' ? 'many-to-many' : 'one-to-one',
+            name: relationName,
+            sourceField: relationField,
+            through,
+            isOptional,
+            where
+          });
+          return;
         }
+
+        // one() usually sits on the foreign key side; one() from a unique key to a plain column
+        // (users.profile → profiles.userId) and every many() point at a foreign key on the target
+        const isBackward = relType === 'many' ||
+          (isUniqueKey(getTable(sourceTableName), sourceColumns) && !isUniqueKey(getTable(targetTableName), targetColumns));
+        addRelation(isBackward
+          ? {
+              id: generateRelationshipId(targetTableName, targetColumns, sourceTableName, relationName),
+              source: targetTableName,
+              target: sourceTableName,
+              sourceColumn: targetColumns[0],
+              targetColumn: sourceColumns[0],
+              sourceColumns: targetColumns,
+              targetColumns: sourceColumns,
+              cardinality: relType === 'many' ? 'many-to-one' : 'one-to-one',
+              name: relationName,
+              targetField: relationField,
+              isOptional,
+              where
+            }
+          : {
+              id: generateRelationshipId(sourceTableName, sourceColumns, targetTableName, relationName),
+              source: sourceTableName,
+              target: targetTableName,
+              sourceColumn: sourceColumns[0],
+              targetColumn: targetColumns[0],
+              sourceColumns,
+              targetColumns,
+              cardinality: 'many-to-one',
+              name: relationName,
+              sourceField: relationField,
+              isOptional,
+              where
+            });
+      });
+    });
+  } catch (error) {
+    console.error('Error parsing defineRelations from AST:', error);
+  }
+  return parsedRelations;
+}
+
+// Helper to read the columns of from/to in the relational API v2: r.users.id, [r.users.a, r.users.b]
+// or r.users.id.through(r.usersToGroups.userId)
+function getRelationColumnRefs(node: Node, builderName: string): { table: string; column: string; through?: { table: string; column: string } }[] {
+  const readColumn = (expr: Node | null) => {
+    if (
+      expr &&
+      isMemberExpression(expr) &&
+      isIdentifier(expr.property) &&
+      isMemberExpression(expr.object) &&
+      isIdentifier(expr.object.object) &&
+      expr.object.object.name === builderName &&
+      isIdentifier(expr.object.property)
+    ) {
+      return { table: expr.object.property.name, column: expr.property.name };
+    }
+    return null;
+  };
+
+  const elements = isArrayExpression(node) ? node.elements : [node];
+  return elements.flatMap((element) => {
+    if (element && isCallExpression(element) && isMemberExpression(element.callee) && isIdentifier(element.callee.property) && element.callee.property.name === 'through') {
+      const ref = readColumn(element.callee.object);
+      const through = readColumn(element.arguments[0] ?? null);
+      return ref && through ? [{ ...ref, through }] : [];
+    }
+    const ref = element && element.type !== 'SpreadElement' ? readColumn(element) : null;
+    return ref ? [ref] : [];
+  });
+}
+
+// Helper to parse top-level indexes, e.g. export const idx = index('name').on(table.column)
+function parseIndexFromAST(declaration: VariableDeclarator, tableMap: { [key: string]: ParsedTable }, schemaCode: string) {
+  try {
+    if (!declaration.init || !isIdentifier(declaration.id)) return;
+    const indexData = parseIndexBuilder(declaration.init, declaration.id.name, schemaCode, identifier => tableMap[identifier]);
+    if (indexData?.table) {
+      indexData.table.indexes.push(indexData.index);
     }
   } catch (error) {
     console.error('Error parsing index from AST:', error);
   }
 }
 
+// Helper to parse an index builder chain like uniqueIndex('name').on(t.a, t.b.desc())
+// or index('name').using('gin', t.tags).where(sql`...`).concurrently()
+// getTable resolves the identifier before a column (the t in t.a) to its table
+// Returns the index and the table its columns belong to
+function parseIndexBuilder(
+  expr: Node,
+  fallbackName: string,
+  schemaCode: string,
+  getTable: (identifier: string) => ParsedTable | undefined
+): { index: ParsedIndex; table?: ParsedTable } | null {
+  const chain = getCallChain(expr);
+  if (!chain || !['index', 'uniqueIndex'].includes(chain.name)) return null;
+
+  const findCall = (...names: string[]) => chain.calls.find(call => names.includes(getCalleeName(call) ?? ''));
+  const onCall = findCall('on', 'onOnly');
+  const usingCall = findCall('using');
+  const whereCall = findCall('where');
+
+  // PostgreSQL's .using('gin', ...keys) replaces .on(); MySQL's .using('btree') only sets the method
+  const methodArg = usingCall?.arguments[0];
+  const keyArgs = onCall ? onCall.arguments : usingCall?.arguments.slice(1);
+  if (!keyArgs || keyArgs.length === 0) return null;
+
+  const keys: ParsedIndexKey[] = [];
+  const columns: string[] = [];
+  let table: ParsedTable | undefined;
+  keyArgs.forEach(arg => {
+    const keyData = arg.type !== 'SpreadElement' ? parseIndexKey(arg, schemaCode, getTable) : null;
+    if (!keyData) return;
+    keys.push(keyData.key);
+    keyData.columns.forEach(column => {
+      if (!columns.includes(column)) columns.push(column);
+    });
+    table ??= keyData.table;
+  });
 
-// Helper to parse enums
-function parseEnumFromAST(declaration: VariableDeclarator): ParsedEnum | null {
+  const whereArg = whereCall?.arguments[0];
+  const where = whereArg && whereArg.type !== 'SpreadElement'
+    ? (whereArg.type === 'TaggedTemplateExpression' ? renderSqlTemplate(whereArg, schemaCode, getTable).sql : getNodeSource(whereArg, schemaCode))
+    : undefined;
+
+  const nameArg = chain.base.arguments[0];
+
+  return {
+    index: {
+      name: nameArg && isLiteral(nameArg) ? String(nameArg.value) : fallbackName,
+      columns,
+      keys,
+      isUnique: chain.name === 'uniqueIndex',
+      method: methodArg && isLiteral(methodArg) ? String(methodArg.value) : undefined,
+      where,
+      isConcurrent: findCall('concurrently') ? true : undefined
+    },
+    table
+  };
+}
+
+// Helper to parse one index key: t.a, t.a.desc().nullsFirst(), t.a.op('gin_trgm_ops') or sql`lower(${t.a})`
+function parseIndexKey(
+  node: Node,
+  schemaCode: string,
+  getTable: (identifier: string) => ParsedTable | undefined
+): { key: ParsedIndexKey; columns: string[]; table?: ParsedTable } | null {
+  const key: ParsedIndexKey = {};
+  let current: Node = node;
+
+  while (isCallExpression(current) && isMemberExpression(current.callee)) {
+    const method = getCalleeName(current);
+    const arg = current.arguments[0];
+    if (method === 'asc' || method === 'desc') {
+      key.order = method;
+    } else if (method === 'nullsFirst' || method === 'nullsLast') {
+      key.nulls = method === 'nullsFirst' ? 'first' : 'last';
+    } else if (method === 'op' && arg && isLiteral(arg)) {
+      key.opClass = String(arg.value);
+    }
+    current = current.callee.object;
+  }
+
+  if (isMemberExpression(current) && isIdentifier(current.object) && isIdentifier(current.property)) {
+    key.column = current.property.name;
+    return { key, columns: [key.column], table: getTable(current.object.name) };
+  }
+  if (current.type === 'TaggedTemplateExpression') {
+    const rendered = renderSqlTemplate(current, schemaCode, getTable);
+    key.expression = rendered.sql;
+    return { key, columns: rendered.columns, table: rendered.table };
+  }
+  return null;
+}
+
+// Helper to render a sql`...` template, replacing interpolated columns like t.price with their
+// quoted database names; other interpolations are kept as ${...}
+function renderSqlTemplate(
+  node: TaggedTemplateExpression,
+  schemaCode: string,
+  getTable: (identifier: string) => ParsedTable | undefined
+): { sql: string; columns: string[]; table?: ParsedTable } {
+  const columns: string[] = [];
+  let table: ParsedTable | undefined;
+  const { quasis, expressions } = node.quasi;
+
+  const sql = quasis.map((quasi, i) => {
+    const interpolated = expressions[i];
+    if (!interpolated) return quasi.value.raw;
+
+    let column: ParsedColumn | undefined;
+    if (isMemberExpression(interpolated) && isIdentifier(interpolated.object) && isIdentifier(interpolated.property)) {
+      const owner = getTable(interpolated.object.name);
+      const columnName = interpolated.property.name;
+      column = owner?.columns.find(c => c.name === columnName);
+      if (column) table ??= owner;
+    }
+    if (column && !columns.includes(column.name)) columns.push(column.name);
+    return quasi.value.raw + (column ? `"${column.dbName}"` : `\${${getNodeSource(interpolated, schemaCode)}}`);
+  }).join('');
+
+  return { sql, columns, table };
+}
+
+// Helper to parse the third table argument: (t) => ({ ... }) or (t) => [ ... ]
+// Adds indexes, unique and check constraints and composite primary keys to the table,
+// and one relationship per foreign key
+function parseExtraConfigFromAST(configNode: Node, table: ParsedTable, relationships: ParsedRelationship[], roles: ParsedRole[], schemaCode: string) {
+  try {
+    if (!isArrowFunctionExpression(configNode)) return;
+
+    // The callback parameter refers to the table itself, e.g. (t) => ...
+    const selfRefs = [table.id];
+    const param = configNode.params[0];
+    if (param && isIdentifier(param)) {
+      selfRefs.push(param.name);
+    }
+
+    // Accept expression bodies as well as { return ... } blocks
+    let body: Node | null | undefined = configNode.body;
+    if (body.type === 'BlockStatement') {
+      const returnStatement = body.body.find(statement => statement.type === 'ReturnStatement');
+      body = returnStatement && returnStatement.type === 'ReturnStatement' ? returnStatement.argument : null;
+    }
+    if (!body) return;
+
+    const entries: Node[] = [];
+    if (isObjectExpression(body)) {
+      body.properties.forEach(prop => {
+        if (isProperty(prop)) entries.push(prop.value);
+      });
+    } else if (isArrayExpression(body)) {
+      body.elements.forEach(el => {
+        if (el && el.type !== 'SpreadElement') entries.push(el);
+      });
+    }
+
+    const getTable = (identifier: string) => selfRefs.includes(identifier) ? table : undefined;
+
+    entries.forEach(entry => {
+      const chain = getCallChain(entry);
+      if (!chain) return;
+
+      switch (chain.name) {
+        case 'index':
+        case 'uniqueIndex': {
+          const indexData = parseIndexBuilder(entry, '', schemaCode, getTable);
+          if (indexData) {
+            const { index } = indexData;
+            table.indexes.push({
+              ...index,
+              name: index.name || `${table.name}_${index.columns.join('_')}_index`
+            });
+          }
+          break;
+        }
+        case 'unique': {
+          // unique('name').on(t.a, t.b).nullsNotDistinct()
+          const onCall = chain.calls.find(call => getCalleeName(call) === 'on');
+          if (!onCall) break;
+          const columns = getColumnNames(onCall.arguments);
+          const nameArg = chain.base.arguments[0];
+          table.constraints.push({
+            kind: 'unique',
+            name: nameArg && isLiteral(nameArg) ? String(nameArg.value) : `${table.name}_${getColumnDbNames(table, columns).join('_')}_unique`,
+            columns,
+            nullsNotDistinct: chain.calls.some(call => getCalleeName(call) === 'nullsNotDistinct') || undefined
+          });
+          break;
+        }
+        case 'check': {
+          // check('price_positive', sql`${t.price} > 0`)
+          const [nameArg, expressionArg] = chain.base.arguments;
+          if (!nameArg || !isLiteral(nameArg) || !expressionArg || expressionArg.type !== 'TaggedTemplateExpression') break;
+
+          const { sql, columns } = renderSqlTemplate(expressionArg, schemaCode, getTable);
+          table.constraints.push({
+            kind: 'check',
+            name: String(nameArg.value),
+            columns,
+            expression: sql
+          });
+          break;
+        }
+        case 'primaryKey': {
+          // primaryKey({ columns: [t.a, t.b] }) or the legacy primaryKey(t.a, t.b)
+          const config = chain.base.arguments[0];
+          const columnsNode = config && isObjectExpression(config) ? getObjectProperty(config, 'columns') : null;
+          const columns = columnsNode && isArrayExpression(columnsNode)
+            ? getColumnNames(columnsNode.elements)
+            : getColumnNames(chain.base.arguments);
+          const nameNode = config && isObjectExpression(config) ? getObjectProperty(config, 'name') : null;
+          table.primaryKey = {
+            name: nameNode && isLiteral(nameNode) ? String(nameNode.value) : undefined,
+            columns
+          };
+          table.columns.forEach(column => {
+            if (columns.includes(column.name)) {
+              column.isPrimaryKey = true;
+            }
+          });
+          break;
+        }
+        case 'foreignKey': {
+          // foreignKey({ columns: [t.userId], foreignColumns: [users.id] })
+          const config = chain.base.arguments[0];
+          if (!config || !isObjectExpression(config)) break;
+          const columnsNode = getObjectProperty(config, 'columns');
+          const foreignColumnsNode = getObjectProperty(config, 'foreignColumns');
+          if (!columnsNode || !foreignColumnsNode || !isArrayExpression(columnsNode) || !isArrayExpression(foreignColumnsNode)) break;
+
+          const sourceColumns = getColumnNames(columnsNode.elements);
+          const targetColumns = getColumnNames(foreignColumnsNode.elements);
+          const foreignTableNode = foreignColumnsNode.elements[0];
+          if (!foreignTableNode || !isMemberExpression(foreignTableNode) || !isIdentifier(foreignTableNode.object)) break;
+          if (sourceColumns.length === 0 || sourceColumns.length !== targetColumns.length) break;
+
+          const targetTable = selfRefs.includes(foreignTableNode.object.name) ? table.id : foreignTableNode.object.name;
+          // foreignKey(...).onDelete('cascade').onUpdate('cascade')
+          const getAction = (method: string) => {
+            const actionCall = chain.calls.find(call => getCalleeName(call) === method);
+            const actionArg = actionCall?.arguments[0];
+            return actionArg && isLiteral(actionArg) ? normalizeReferentialAction(String(actionArg.value)) : undefined;
+          };
+          const onDelete = getAction('onDelete');
+          const onUpdate = getAction('onUpdate');
+
+          sourceColumns.forEach((sourceColumn, i) => {
+            const column = table.columns.find(c => c.name === sourceColumn);
+            if (column) {
+              column.references = {
+                table: targetTable,
+                column: targetColumns[i],
+                onDelete,
+                onUpdate
+              };
+            }
+          });
+          relationships.push({
+            id: generateRelationshipId(table.id, sourceColumns, targetTable),
+            source: table.id,
+            target: targetTable,
+            sourceColumn: sourceColumns[0],
+            targetColumn: targetColumns[0],
+            sourceColumns,
+            targetColumns,
+            cardinality: 'many-to-one',
+            onDelete,
+            onUpdate
+          });
+          break;
+        }
+        case 'pgPolicy': {
+          // Defining a policy enables row-level security on the table
+          const policy = parsePolicyFromAST(chain.base, table.id, roles, schemaCode);
+          if (policy) {
+            table.policies = [...(table.policies ?? []), policy];
+            table.isRlsEnabled = true;
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    });
+  } catch (error) {
+    console.error('Error parsing table extra config from AST:', error);
+  }
+}
+
+// Helper to parse pgPolicy('name', { as, for, to, using, withCheck })
+function parsePolicyFromAST(call: CallExpression, tableId: string, roles: ParsedRole[], schemaCode: string): ParsedPolicy | null {
+  const nameNode = call.arguments[0];
+  if (!nameNode || !isLiteral(nameNode)) return null;
+
+  const config = call.arguments[1];
+  const getOption = (key: string) => (config && isObjectExpression(config) ? getObjectProperty(config, key) : null);
+  const getStringOption = (key: string) => {
+    const option = getOption(key);
+    return option && isLiteral(option) ? String(option.value) : undefined;
+  };
+  const getSqlOption = (key: string) => {
+    const option = getOption(key);
+    return option ? getSqlExpression(option, schemaCode) ?? getNodeSource(option, schemaCode) : undefined;
+  };
+
+  // to: 'authenticated', to: adminRole or to: [adminRole, 'anon']
+  const toNode = getOption('to');
+  const roleNodes = toNode ? (isArrayExpression(toNode) ? toNode.elements : [toNode]) : [];
+  const to = roleNodes.map((roleNode) => {
+    if (roleNode && isLiteral(roleNode)) return String(roleNode.value);
+    if (roleNode && isIdentifier(roleNode)) {
+      return roles.find(role => role.propertyName === roleNode.name)?.name ?? SUPABASE_ROLES[roleNode.name] ?? roleNode.name;
+    }
+    return '';
+  }).filter(Boolean);
+
+  const command = getStringOption('for');
+  return {
+    name: String(nameNode.value),
+    table: tableId,
+    as: getStringOption('as') === 'restrictive' ? 'restrictive' : 'permissive',
+    for: command === 'select' || command === 'insert' || command === 'update' || command === 'delete' ? command : 'all',
+    to,
+    using: getSqlOption('using'),
+    withCheck: getSqlOption('withCheck')
+  };
+}
+
+// Helper to parse pgRole('admin', { createDb, createRole, inherit }) and pgRole('admin').existing()
+function parseRoleFromAST(declaration: VariableDeclarator): ParsedRole | null {
+  const chain = declaration.init ? getCallChain(declaration.init) : null;
+  const nameNode = chain?.base.arguments[0];
+  if (!chain || !isIdentifier(declaration.id) || !nameNode || !isLiteral(nameNode)) return null;
+
+  const config = chain.base.arguments[1];
+  const getFlag = (key: string) => {
+    const option = config && isObjectExpression(config) ? getObjectProperty(config, key) : null;
+    return option && isLiteral(option) && typeof option.value === 'boolean' ? option.value : undefined;
+  };
+
+  return {
+    name: String(nameNode.value),
+    propertyName: declaration.id.name,
+    createDb: getFlag('createDb'),
+    createRole: getFlag('createRole'),
+    inherit: getFlag('inherit'),
+    isExisting: chain.calls.some(call => getCalleeName(call) === 'existing') || undefined
+  };
+}
+
+// Helper to parse pgSequence('name', { startWith, increment, minValue, maxValue, cache, cycle })
+function parseSequenceFromAST(declaration: VariableDeclarator, databaseSchemas: { [key: string]: string }): ParsedSequence | null {
+  if (!isIdentifier(declaration.id) || !declaration.init || !isCallExpression(declaration.init)) return null;
+  const call = declaration.init;
+  const nameNode = call.arguments[0];
+  if (!nameNode || !isLiteral(nameNode)) return null;
+
+  const config = call.arguments[1];
+  const getOption = (key: string) => {
+    const option = config && isObjectExpression(config) ? getObjectProperty(config, key) : null;
+    if (option && isLiteral(option)) return String(option.value);
+    // Negative bounds, e.g. minValue: -100
+    if (option && option.type === 'UnaryExpression' && isLiteral(option.argument)) return `${option.operator}${option.argument.value}`;
+    return undefined;
+  };
+
+  return {
+    name: String(nameNode.value),
+    propertyName: declaration.id.name,
+    schema: isMemberExpression(call.callee) ? getDatabaseSchemaName(call.callee.object, databaseSchemas) : undefined,
+    startWith: getOption('startWith'),
+    increment: getOption('increment'),
+    minValue: getOption('minValue'),
+    maxValue: getOption('maxValue'),
+    cache: getOption('cache'),
+    cycle: getOption('cycle') === 'true' || undefined,
+    usedBy: []
+  };
+}
+
+// Helper to resolve the schema of billing.table(...) or pgSchema('billing').table(...)
+function getDatabaseSchemaName(schemaNode: Node, databaseSchemas: { [key: string]: string }): string | undefined {
+  if (isIdentifier(schemaNode)) {
+    return databaseSchemas[schemaNode.name];
+  }
+  if (
+    isCallExpression(schemaNode) &&
+    isIdentifier(schemaNode.callee) &&
+    SCHEMA_BUILDERS.includes(schemaNode.callee.name) &&
+    schemaNode.arguments[0] &&
+    isLiteral(schemaNode.arguments[0])
+  ) {
+    return String(schemaNode.arguments[0].value);
+  }
+  return undefined;
+}
+
+// Helper to split a builder chain like index('name').on(t.a).where(...) into
+// its base call (index('name')) and the chained method calls in source order
+function getCallChain(expr: Node): { name: string; base: CallExpression; calls: CallExpression[] } | null {
+  const calls: CallExpression[] = [];
+  let currentExpr: Node = expr;
+
+  while (isCallExpression(currentExpr)) {
+    if (isIdentifier(currentExpr.callee)) {
+      return { name: currentExpr.callee.name, base: currentExpr, calls };
+    }
+    if (!isMemberExpression(currentExpr.callee)) break;
+    calls.unshift(currentExpr);
+    currentExpr = currentExpr.callee.object;
+  }
+
+  return null;
+}
+
+// Helper to get the method name of a chained call like .on(...)
+function getCalleeName(call: CallExpression): string | null {
+  if (isMemberExpression(call.callee) && isIdentifier(call.callee.property)) {
+    return call.callee.property.name;
+  }
+  return null;
+}
+
+// Helper to read column names from member expressions like t.column or users.id
+function getColumnNames(nodes: (Node | Expression | SpreadElement | null)[]): string[] {
+  return nodes.map((node) => {
+    if (node && isMemberExpression(node) && isIdentifier(node.property)) {
+      return node.property.name;
+    }
+    return '';
+  }).filter(Boolean);
+}
+
+// Helper to map column property names to their database names
+function getColumnDbNames(table: ParsedTable, columns: string[]): string[] {
+  return columns.map(name => table.columns.find(column => column.name === name)?.dbName ?? name);
+}
+
+// Helper to find a property value in an object literal by key
+function getObjectProperty(objectNode: ObjectExpression, key: string): Node | null {
+  const prop = objectNode.properties.find((p): p is Property => isProperty(p) && isIdentifier(p.key) && p.key.name === key);
+  return prop ? prop.value : null;
+}
+
+// Helper to get the source text of a node, e.g. crypto.randomUUID()
+function getNodeSource(node: Node, schemaCode: string): string {
+  const { start, end } = node as Node & { start: number; end: number };
+  return schemaCode.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+// Helper to read the JSDoc comment right above a node, e.g. /** Shown on invoices */ above a column,
+// or above export const for a table; line comments are not documentation
+function getDocComment(node: Node, schemaCode: string, comments: Comment[]): string | undefined {
+  const { start } = node as Node & { start: number };
+  const comment = comments.find(candidate =>
+    candidate.type === 'Block' &&
+    candidate.value.startsWith('*') &&
+    candidate.end <= start &&
+    /^\s*(export\s+)?((const|let|var)\s+)?$/.test(schemaCode.slice(candidate.end, start))
+  );
+  if (!comment) return undefined;
+
+  const text = comment.value
+    .slice(1)
+    .split('\n')
+    .map(line => line.replace(/^\s*\*?\s?/, '').trimEnd())
+    .join('\n')
+    .trim();
+  return text || undefined;
+}
+
+// Helper to show a $defaultFn/$onUpdate callback by its body, e.g. () => new Date() as new Date()
+function getFunctionSource(node: Node, schemaCode: string): string {
+  if (isArrowFunctionExpression(node) && node.body.type !== 'BlockStatement') {
+    return getNodeSource(node.body, schemaCode);
+  }
+  return getNodeSource(node, schemaCode);
+}
+
+// Helper to read the SQL of sql`now()` or sql.raw('now()')
+function getSqlExpression(node: Node, schemaCode: string): string | null {
+  if (node.type === 'TaggedTemplateExpression' && isIdentifier(node.tag) && node.tag.name === 'sql') {
+    return getNodeSource(node.quasi, schemaCode).slice(1, -1);
+  }
+  if (isCallExpression(node) && isMemberExpression(node.callee) && isIdentifier(node.callee.object) &&
+    node.callee.object.name === 'sql' && node.arguments[0] && isLiteral(node.arguments[0])) {
+    return String(node.arguments[0].value);
+  }
+  return null;
+}
+
+// Helper to read the expression of .generatedAlwaysAs(sql`...`), (): SQL => sql`...` or a plain string
+function getGeneratedExpression(node: Node, schemaCode: string): string {
+  const expression = isArrowFunctionExpression(node) && node.body.type !== 'BlockStatement' ? node.body : node;
+  if (isLiteral(expression) && typeof expression.value === 'string') {
+    return expression.value;
+  }
+  return getSqlExpression(expression, schemaCode) ?? getNodeSource(expression, schemaCode);
+}
+
+// Helper to evaluate the argument of .default(): a literal, an enum member or a sql`...` expression
+function parseDefaultFromAST(arg: Node, schemaCode: string, enums: ParsedEnum[]): ParsedColumnDefault {
+  const sqlExpression = getSqlExpression(arg, schemaCode);
+  if (sqlExpression !== null) {
+    return { kind: 'sql', value: sqlExpression };
+  }
+
+  if (isLiteral(arg)) {
+    return { kind: 'literal', value: typeof arg.value === 'string' ? `'${arg.value}'` : String(arg.value) };
+  }
+  if (arg.type === 'TemplateLiteral' && arg.expressions.length === 0) {
+    return { kind: 'literal', value: `'${arg.quasis[0].value.cooked ?? ''}'` };
+  }
+
+  // roleEnum.enumValues[0]
+  if (
+    isMemberExpression(arg) && arg.computed && isLiteral(arg.property) && typeof arg.property.value === 'number' &&
+    isMemberExpression(arg.object) && isIdentifier(arg.object.object) &&
+    isIdentifier(arg.object.property) && arg.object.property.name === 'enumValues'
+  ) {
+    const enumName = arg.object.object.name;
+    const enumValue = enums.find(e => e.name === enumName)?.values[arg.property.value];
+    if (enumValue !== undefined) {
+      return { kind: 'literal', value: `'${enumValue}'` };
+    }
+  }
+
+  // Anything else (-1, [], {}, Status.Active) is shown as written
+  return { kind: 'literal', value: getNodeSource(arg, schemaCode) };
+}
+
+// Helper to parse enums: pgEnum('name', [...]) or billing.enum('name', [...])
+function parseEnumFromAST(
+  declaration: VariableDeclarator,
+  databaseSchemas: { [key: string]: string },
+  schemaCode: string,
+  comments: Comment[]
+): ParsedEnum | null {
   try {
     if (!isIdentifier(declaration.id) || !declaration.init || !isCallExpression(declaration.init)) return null;
 
@@ -337,16 +1384,24 @@ function parseEnumFromAST(declaration: VariableDeclarator): ParsedEnum | null {
     const valuesNode = callExpression.arguments[1];
     if (!isArrayExpression(valuesNode)) return null;
 
-    const values = valuesNode.elements.map((el) => {
+    const values: string[] = [];
+    const valueDescriptions: Record<string, string> = {};
+    valuesNode.elements.forEach((el) => {
       if (isLiteral(el) && typeof el.value === 'string') {
-        return el.value;
+        values.push(el.value);
+        const description = getDocComment(el, schemaCode, comments);
+        if (description) valueDescriptions[el.value] = description;
       }
-      return '';
-    }).filter(Boolean);
+    });
     
     return {
       name: enumName,
-      values
+      propertyName: enumName,
+      dbName: String(enumDbName.value),
+      schema: isMemberExpression(callExpression.callee) ? getDatabaseSchemaName(callExpression.callee.object, databaseSchemas) : undefined,
+      values,
+      description: getDocComment(declaration, schemaCode, comments),
+      valueDescriptions: Object.keys(valueDescriptions).length > 0 ? valueDescriptions : undefined
     };
   } catch (error) {
     console.error('Error parsing enum from AST:', error);
@@ -354,6 +1409,28 @@ function parseEnumFromAST(declaration: VariableDeclarator): ParsedEnum | null {
   }
 }
 
+// Helper to read the SQL type a customType emits: the string returned by dataType(),
+// e.g. dataType() { return 'citext'; } or dataType: () => `money`
+function getCustomDataType(call: CallExpression): string | null {
+  const options = call.arguments[0];
+  const dataTypeNode = options && isObjectExpression(options) ? getObjectProperty(options, 'dataType') : null;
+  if (!dataTypeNode || (dataTypeNode.type !== 'FunctionExpression' && dataTypeNode.type !== 'ArrowFunctionExpression')) return null;
+
+  let returned: Node | null | undefined = dataTypeNode.body;
+  if (dataTypeNode.body.type === 'BlockStatement') {
+    const returnStatement = dataTypeNode.body.body.find(statement => statement.type === 'ReturnStatement');
+    returned = returnStatement?.type === 'ReturnStatement' ? returnStatement.argument : null;
+  }
+
+  if (returned && isLiteral(returned) && typeof returned.value === 'string') {
+    return returned.value;
+  }
+  if (returned?.type === 'TemplateLiteral' && returned.expressions.length === 0) {
+    return returned.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
 // Helper function to walk through AST nodes
 function walkAST(node: Node, callback: (node: Node) => void) {
   callback(node);
@@ -375,21 +1452,37 @@ function walkAST(node: Node, callback: (node: Node) => void) {
 }
 
 // Parse a table definition from AST node
-function parseTableFromAST(declaration: VariableDeclarator, tableIndex: number, sharedSchemas: { [key: string]: ObjectExpression }): ParsedTable | null {
+function parseTableFromAST(
+  declaration: VariableDeclarator,
+  tableIndex: number,
+  helpers: SchemaHelpers,
+  dialect: DatabaseDialect,
+  relationships: ParsedRelationship[],
+  schemaCode: string,
+  enums: ParsedEnum[],
+  roles: ParsedRole[],
+  customTypes: { [key: string]: string },
+  casing: ColumnCasing | undefined,
+  comments: Comment[]
+): ParsedTable | null {
   try {
     if(!isIdentifier(declaration.id) || !declaration.init || !isCallExpression(declaration.init)) return null;
 
     const tableName = declaration.id.name;
-    const callExpression = declaration.init;
+    const callExpression = getTableCall(declaration.init);
+    const isRlsEnabled = callExpression !== declaration.init ||
+      (isMemberExpression(callExpression.callee) && isIdentifier(callExpression.callee.property) && callExpression.callee.property.name === 'withRLS');
     
     // Handle different table creation patterns
     let tableNameNode: Node | null = null;
     let columnsNode: Node | null = null;
+    let extraConfigNode: Node | null = null;
     
-    // Handle pgTable('name', { columns }) or schema.table('name', { columns })
+    // Handle pgTable('name', { columns }, (t) => [...]) or schema.table('name', { columns })
     if (callExpression.arguments.length >= 2) {
       tableNameNode = callExpression.arguments[0];
       columnsNode = callExpression.arguments[1];
+      extraConfigNode = callExpression.arguments[2] || null;
     }
     // Handle pgTableCreator(schema)('name', { columns })
     else if (callExpression.arguments.length === 1 && isCallExpression(callExpression.callee)) {
@@ -397,43 +1490,65 @@ function parseTableFromAST(declaration: VariableDeclarator, tableIndex: number,
       if (innerCall.arguments.length >= 2) {
         tableNameNode = innerCall.arguments[0];
         columnsNode = innerCall.arguments[1];
+        extraConfigNode = innerCall.arguments[2] || null;
       }
     }
     
-    if (!tableNameNode || !columnsNode || !isLiteral(tableNameNode) || !isObjectExpression(columnsNode)) return null;
+    if (!tableNameNode || !columnsNode || !isLiteral(tableNameNode)) return null;
+    // Spreads, helper calls like ...timestamps() and Object.assign are folded into one object
+    const columnsObject = foldExpression(columnsNode, helpers);
+    if (!isObjectExpression(columnsObject)) return null;
     
     const actualTableName = String(tableNameNode.value);
     const columns: ParsedColumn[] = [];
+    const constraints: ParsedConstraint[] = [];
 
-    // Parse columns from object properties, handling spreads
-    columnsNode.properties.forEach((prop) => {
-      if (prop.type === 'Property') {
-        const column = parseColumnFromAST(prop);
-        if (column) {
-          columns.push(column);
-        }
-      } else if (prop.type === 'SpreadElement' && isIdentifier(prop.argument)) {
-        const schemaName = prop.argument.name;
-        if (sharedSchemas[schemaName]) {
-          sharedSchemas[schemaName].properties.forEach((sharedProp) => {
-             if (isProperty(sharedProp)) {
-                const column = parseColumnFromAST(sharedProp);
-                if (column) {
-                  columns.push(column);
-                }
-              }
-          });
-        }
+    // Column-level .unique('name', { nulls: 'not distinct' }) is a unique constraint of its own
+    const addColumn = (prop: Property) => {
+      const column = parseColumnFromAST(prop, dialect, schemaCode, enums, customTypes, casing, comments);
+      if (!column) return;
+      columns.push(column);
+
+      const uniqueCall = getCallChain(prop.value)?.calls.find(call => getCalleeName(call) === 'unique');
+      if (uniqueCall) {
+        const [nameArg, optionsArg] = uniqueCall.arguments;
+        const nullsNode = optionsArg && isObjectExpression(optionsArg) ? getObjectProperty(optionsArg, 'nulls') : null;
+        constraints.push({
+          kind: 'unique',
+          name: nameArg && isLiteral(nameArg) ? String(nameArg.value) : `${actualTableName}_${column.dbName}_unique`,
+          columns: [column.name],
+          nullsNotDistinct: (nullsNode && isLiteral(nullsNode) && nullsNode.value === 'not distinct') || undefined
+        });
+      }
+    };
+
+    // Parse columns from object properties; spreads left unresolved are skipped
+    columnsObject.properties.forEach((prop) => {
+      if (isProperty(prop)) {
+        addColumn(prop);
       }
     });
 
-    return {
+    const primaryKeyColumns = columns.filter(column => column.isPrimaryKey).map(column => column.name);
+    const table: ParsedTable = {
       id: tableName,
       name: actualTableName,
+      propertyName: tableName,
+      dbName: actualTableName,
       columns,
-      indexes: [], // Will be populated later
+      indexes: [], // Top-level indexes are added later
+      constraints,
+      primaryKey: primaryKeyColumns.length > 0 ? { columns: primaryKeyColumns } : undefined,
+      isRlsEnabled: isRlsEnabled || undefined,
+      description: getDocComment(declaration, schemaCode, comments),
       position: generateTablePosition(tableIndex)
     };
+
+    if (extraConfigNode) {
+      parseExtraConfigFromAST(extraConfigNode, table, relationships, roles, schemaCode);
+    }
+
+    return table;
   } catch (error) {
     console.error('Error parsing table from AST:', error);
     return null;
@@ -441,7 +1556,15 @@ function parseTableFromAST(declaration: VariableDeclarator, tableIndex: number,
 }
 
 // Parse a column definition from AST node
-function parseColumnFromAST(prop: Property): ParsedColumn | null {
+function parseColumnFromAST(
+  prop: Property,
+  dialect: DatabaseDialect,
+  schemaCode: string,
+  enums: ParsedEnum[],
+  customTypes: { [key: string]: string },
+  casing: ColumnCasing | undefined,
+  comments: Comment[]
+): ParsedColumn | null {
   try {
     if (!isIdentifier(prop.key)) return null;
     const columnName = prop.key.name;
@@ -462,11 +1585,18 @@ function parseColumnFromAST(prop: Property): ParsedColumn | null {
     
     // Get the base type (e.g., 'serial', 'varchar', 'integer')
     let columnType = '';
+    // Without a name argument the database name follows the casing option, e.g. createdAt: timestamp()
+    let dbName = applyColumnCasing(columnName, casing);
     const columnArgs: (string | number)[] = [];
     if (isCallExpression(currentExpr) && isIdentifier(currentExpr.callee)) {
       columnType = currentExpr.callee.name || '';
       if(currentExpr.arguments) {
-        currentExpr.arguments.forEach((arg) => {
+        currentExpr.arguments.forEach((arg, argIndex) => {
+          // The first string argument is the database column name, e.g. timestamp('created_at')
+          if (argIndex === 0 && isLiteral(arg) && typeof arg.value === 'string') {
+            dbName = arg.value;
+            return;
+          }
           if (isObjectExpression(arg)) {
              const props = arg.properties.map((p) => {
                 if(isProperty(p) && isIdentifier(p.key) && isLiteral(p.value)) {
@@ -477,48 +1607,21 @@ function parseColumnFromAST(prop: Property): ParsedColumn | null {
              columnArgs.push(`{ ${props} }`);
           } else if (isLiteral(arg) && (typeof arg.value === 'string' || typeof arg.value === 'number')) {
             columnArgs.push(arg.value);
+          } else if (isArrayExpression(arg)) {
+            // e.g. mysqlEnum('role', ['admin', 'member'])
+            const values = arg.elements.map((el) => isLiteral(el) ? String(el.value) : '').filter(Boolean);
+            columnArgs.push(`[${values.join(', ')}]`);
           }
         });
       }
     }
     
-    // Map Drizzle column types to more readable format
-    const typeMapping: { [key: string]: string } = {
-      'bigint': 'bigint',
-      'bigserial': 'bigserial', 
-      'bit': 'bit',
-      'boolean': 'boolean',
-      'bytea': 'bytea',
-      'char': 'char',
-      'cidr': 'cidr',
-      'date': 'date',
-      'doublePrecision': 'double precision',
-      'inet': 'inet',
-      'integer': 'integer',
-      'interval': 'interval',
-      'json': 'json',
-      'jsonb': 'jsonb',
-      'macaddr': 'macaddr',
-      'macaddr8': 'macaddr8',
-      'numeric': 'numeric',
-      'decimal': 'decimal',
-      'pgEnum': 'enum',
-      'point': 'point',
-      'real': 'real',
-      'serial': 'serial',
-      'smallint': 'smallint',
-      'smallserial': 'smallserial',
-      'text': 'text',
-      'time': 'time',
-      'timestamp': 'timestamp',
-      'timestamptz': 'timestamptz',
-      'uuid': 'uuid',
-      'varchar': 'varchar',
-      'vector': 'vector',
-      'xml': 'xml'
-    };
-    
-    const displayType = typeMapping[columnType] || columnType;
+    // Columns built from a pgEnum are typed with the enum's database type, custom types with their dataType()
+    const columnEnum = enums.find(e => e.name === columnType);
+    const customDataType = Object.prototype.hasOwnProperty.call(customTypes, columnType) ? customTypes[columnType] : undefined;
+    const displayType = columnEnum
+      ? `enum(${columnEnum.dbName})`
+      : customDataType ?? (COLUMN_TYPE_MAPPINGS[dialect][columnType] || columnType);
     
     // Check for modifiers
     const isPrimaryKey = chainedCalls.includes('primaryKey');
@@ -526,33 +1629,95 @@ function parseColumnFromAST(prop: Property): ParsedColumn | null {
     const isNotNull = chainedCalls.includes('notNull');
     
     // Check for references
-    let references: { table: string; column: string } | undefined;
+    let references: ParsedColumn['references'];
     if (chainedCalls.includes('references')) {
       references = parseReferencesFromAST(columnExpression);
     }
 
-    // Parse default values
-    let defaultValue: string | undefined;
-    const defaultCallIndex = chainedCalls.findIndex(call => ['default', 'defaultNow', 'defaultRandom'].includes(call));
-    if (defaultCallIndex !== -1) {
-      const defaultCall = chainedCalls[defaultCallIndex];
-      if (defaultCall === 'defaultNow') {
-        defaultValue = 'now()';
-      } else if (defaultCall === 'defaultRandom') {
-        defaultValue = 'gen_random_uuid()';
-      } else {
-        defaultValue = 'default';
+    // Check for array, generated, identity and $type<T>() modifiers
+    let arrayDimensions = 0;
+    let generated: ParsedColumn['generated'];
+    let identity: ParsedColumn['identity'];
+    let tsType: string | undefined;
+    getCallChain(columnExpression)?.calls.forEach((call) => {
+      switch (getCalleeName(call)) {
+        case 'array':
+          arrayDimensions++;
+          break;
+        case 'generatedAlwaysAs': {
+          const options = call.arguments[1];
+          const modeNode = options && isObjectExpression(options) ? getObjectProperty(options, 'mode') : null;
+          generated = {
+            expression: call.arguments[0] ? getGeneratedExpression(call.arguments[0], schemaCode) : '',
+            mode: modeNode && isLiteral(modeNode) && (modeNode.value === 'stored' || modeNode.value === 'virtual') ? modeNode.value : undefined
+          };
+          break;
+        }
+        case 'generatedAlwaysAsIdentity':
+          identity = 'always';
+          break;
+        case 'generatedByDefaultAsIdentity':
+          identity = 'by default';
+          break;
+        case '$type': {
+          // acorn-typescript keeps the type arguments as typeParameters, e.g. <'a' | 'b'>
+          const typeParameters = (call as CallExpression & { typeParameters?: Node }).typeParameters;
+          if (typeParameters) {
+            tsType = getNodeSource(typeParameters, schemaCode).slice(1, -1).trim();
+          }
+          break;
+        }
       }
-    }
+    });
+
+    // Parse default and on-update values
+    let defaultValue: ParsedColumnDefault | undefined;
+    let onUpdateValue: ParsedColumnDefault | undefined;
+    getCallChain(columnExpression)?.calls.forEach((call) => {
+      const arg = call.arguments[0];
+      switch (getCalleeName(call)) {
+        case 'default':
+          if (arg) defaultValue = parseDefaultFromAST(arg, schemaCode, enums);
+          break;
+        case 'defaultNow':
+          defaultValue = { kind: 'sql', value: 'now()' };
+          break;
+        case 'defaultRandom':
+          defaultValue = { kind: 'sql', value: 'gen_random_uuid()' };
+          break;
+        case '$default':
+        case '$defaultFn':
+          if (arg) defaultValue = { kind: 'function', value: getFunctionSource(arg, schemaCode) };
+          break;
+        case '$onUpdate':
+        case '$onUpdateFn':
+          if (arg) onUpdateValue = { kind: 'function', value: getFunctionSource(arg, schemaCode) };
+          break;
+        // MySQL ON UPDATE CURRENT_TIMESTAMP
+        case 'onUpdateNow':
+          onUpdateValue = { kind: 'sql', value: 'now()' };
+          break;
+      }
+    });
 
     return {
       name: columnName,
-      type: `${displayType}${columnArgs.length > 0 ? `(${columnArgs.join(', ')})` : ''}`,
+      propertyName: columnName,
+      dbName,
+      type: `${displayType}${columnArgs.length > 0 ? `(${columnArgs.join(', ')})` : ''}${'[]'.repeat(arrayDimensions)}`,
       isPrimaryKey,
       isUnique,
       isNotNull,
       references,
-      defaultValue
+      defaultValue,
+      onUpdateValue,
+      isArray: arrayDimensions > 0 || undefined,
+      generated,
+      identity,
+      tsType,
+      enumName: columnEnum?.name,
+      customType: customDataType !== undefined ? columnType : undefined,
+      description: getDocComment(prop, schemaCode, comments)
     };
   } catch (error) {
     console.error('Error parsing column from AST:', error);
@@ -560,10 +1725,202 @@ function parseColumnFromAST(prop: Property): ParsedColumn | null {
   }
 }
 
+// Parse a view definition like pgView('name').as((qb) => qb.select().from(users)),
+// pgMaterializedView('name', { columns }).as(sql`...`) or billing.view('name').existing()
+function parseViewFromAST(
+  declaration: VariableDeclarator,
+  viewIndex: number,
+  tables: ParsedTable[],
+  views: ParsedView[],
+  databaseSchemas: { [key: string]: string },
+  dialect: DatabaseDialect,
+  schemaCode: string,
+  enums: ParsedEnum[],
+  customTypes: { [key: string]: string },
+  casing: ColumnCasing | undefined,
+  comments: Comment[]
+): ParsedView | null {
+  try {
+    if (!isIdentifier(declaration.id) || !declaration.init || !isCallExpression(declaration.init)) return null;
+
+    // Find the view builder call below the chained .as()/.existing()/.with() calls
+    const calls: CallExpression[] = [];
+    let baseCall: CallExpression | null = null;
+    let materialized = false;
+    let schema: string | undefined;
+    let currentExpr: Node = declaration.init;
+    while (isCallExpression(currentExpr)) {
+      const callee: Node = currentExpr.callee;
+      if (isIdentifier(callee)) {
+        if (callee.name in VIEW_BUILDERS) {
+          baseCall = currentExpr;
+          materialized = VIEW_BUILDERS[callee.name];
+        }
+        break;
+      }
+      if (!isMemberExpression(callee) || !isIdentifier(callee.property)) break;
+      if (['view', 'materializedView'].includes(callee.property.name) && getDatabaseSchemaName(callee.object, databaseSchemas)) {
+        baseCall = currentExpr;
+        materialized = callee.property.name === 'materializedView';
+        schema = getDatabaseSchemaName(callee.object, databaseSchemas);
+        break;
+      }
+      calls.unshift(currentExpr);
+      currentExpr = callee.object;
+    }
+
+    const nameNode = baseCall?.arguments[0];
+    if (!baseCall || !nameNode || !isLiteral(nameNode)) return null;
+
+    const viewName = String(nameNode.value);
+    const columnsNode = baseCall.arguments[1];
+    const columns: ParsedColumn[] = [];
+    if (columnsNode && isObjectExpression(columnsNode)) {
+      columnsNode.properties.forEach((prop) => {
+        const column = isProperty(prop) ? parseColumnFromAST(prop, dialect, schemaCode, enums, customTypes, casing, comments) : null;
+        if (column) {
+          columns.push(column);
+        }
+      });
+    }
+
+    const dependencies: string[] = [];
+    const addDependency = (id: string | null) => {
+      if (id && !dependencies.includes(id)) dependencies.push(id);
+    };
+    let definition: string | undefined;
+    const asCall = calls.find(call => getCalleeName(call) === 'as');
+    const queryNode = asCall?.arguments[0];
+
+    if (queryNode && queryNode.type === 'TaggedTemplateExpression') {
+      // .as(sql`select * from ${users}`): dependencies come from interpolated tables and FROM/JOIN clauses
+      definition = getNodeSource(queryNode.quasi, schemaCode).slice(1, -1);
+      queryNode.quasi.expressions.forEach(expression => {
+        addDependency(isIdentifier(expression) ? getQuerySourceId(expression, tables, views) : null);
+      });
+      const sourceRegex = /\b(?:from|join)\s+"?(\w+)"?/gi;
+      let sourceMatch;
+      while ((sourceMatch = sourceRegex.exec(definition)) !== null) {
+        const sourceName = sourceMatch[1];
+        addDependency([...tables, ...views].find(item => item.dbName === sourceName)?.id ?? null);
+      }
+    } else if (queryNode && isArrowFunctionExpression(queryNode)) {
+      // .as((qb) => qb.select({ ... }).from(users).leftJoin(posts, ...))
+      const body = queryNode.body.type === 'BlockStatement'
+        ? queryNode.body.body.find(statement => statement.type === 'ReturnStatement')?.argument
+        : queryNode.body;
+      let selectFields: ObjectExpression | null = null;
+      let queryExpr: Node | null | undefined = body;
+      while (queryExpr && isCallExpression(queryExpr) && isMemberExpression(queryExpr.callee)) {
+        const method = getCalleeName(queryExpr);
+        const firstArg = queryExpr.arguments[0];
+        if (method && QUERY_SOURCE_METHODS.includes(method) && firstArg) {
+          // Joins are listed after the FROM table
+          const sourceId = getQuerySourceId(firstArg, tables, views);
+          if (sourceId && !dependencies.includes(sourceId)) {
+            dependencies.splice(method === 'from' ? 0 : dependencies.length, 0, sourceId);
+          }
+        } else if ((method === 'select' || method === 'selectDistinct') && firstArg && isObjectExpression(firstArg)) {
+          selectFields = firstArg;
+        }
+        queryExpr = queryExpr.callee.object;
+      }
+
+      if (columns.length === 0) {
+        columns.push(...getViewColumns(selectFields, dependencies, tables, views));
+      }
+    }
+
+    return {
+      id: declaration.id.name,
+      name: viewName,
+      propertyName: declaration.id.name,
+      dbName: viewName,
+      schema,
+      materialized,
+      columns,
+      dependencies,
+      definition,
+      isExisting: calls.some(call => getCalleeName(call) === 'existing') || undefined,
+      description: getDocComment(declaration, schemaCode, comments),
+      position: generateTablePosition(viewIndex)
+    };
+  } catch (error) {
+    console.error('Error parsing view from AST:', error);
+    return null;
+  }
+}
+
+// Helper to resolve a table or view passed to .from()/.leftJoin(), including alias(users, 'u')
+function getQuerySourceId(node: Node, tables: ParsedTable[], views: ParsedView[]): string | null {
+  const sourceNode = isCallExpression(node) && isIdentifier(node.callee) && node.callee.name === 'alias' ? node.arguments[0] : node;
+  if (!sourceNode || !isIdentifier(sourceNode)) return null;
+  return [...tables, ...views].find(item => item.id === sourceNode.name)?.id ?? null;
+}
+
+// Helper to work out view columns from select({ id: users.id, total: sql`...`.as('total') }),
+// or from every column of the queried tables for a plain select()
+function getViewColumns(selectFields: ObjectExpression | null, sourceIds: string[], tables: ParsedTable[], views: ParsedView[]): ParsedColumn[] {
+  const sources = [...tables, ...views];
+  const toViewColumn = (column: ParsedColumn, name: string, dbName: string): ParsedColumn => ({
+    name,
+    propertyName: name,
+    dbName,
+    type: column.type,
+    isPrimaryKey: false,
+    isUnique: false,
+    isNotNull: column.isNotNull,
+    isArray: column.isArray,
+    tsType: column.tsType
+  });
+
+  if (!selectFields) {
+    const columns: ParsedColumn[] = [];
+    sourceIds.forEach(sourceId => {
+      sources.find(source => source.id === sourceId)?.columns.forEach(column => {
+        if (!columns.some(existing => existing.name === column.name)) {
+          columns.push(toViewColumn(column, column.name, column.dbName));
+        }
+      });
+    });
+    return columns;
+  }
+
+  return selectFields.properties.map((prop): ParsedColumn | null => {
+    if (!isProperty(prop) || !isIdentifier(prop.key)) return null;
+    const fieldName = prop.key.name;
+    const value = prop.value;
+
+    // users.id
+    if (isMemberExpression(value) && isIdentifier(value.object) && isIdentifier(value.property)) {
+      const sourceName = value.object.name;
+      const columnName = value.property.name;
+      const sourceColumn = sources.find(source => source.id === sourceName)?.columns.find(column => column.name === columnName);
+      if (sourceColumn) {
+        return toViewColumn(sourceColumn, fieldName, sourceColumn.dbName);
+      }
+    }
+
+    // sql`count(*)`.as('total') or sql<number>`...`
+    const aliasCall = isCallExpression(value) && getCalleeName(value) === 'as' ? value : null;
+    const aliasNode = aliasCall?.arguments[0];
+    const aliasName = aliasNode && isLiteral(aliasNode) ? String(aliasNode.value) : fieldName;
+    return {
+      name: fieldName,
+      propertyName: fieldName,
+      dbName: aliasName,
+      type: 'sql',
+      isPrimaryKey: false,
+      isUnique: false,
+      isNotNull: false
+    };
+  }).filter((column): column is ParsedColumn => column !== null);
+}
+
 // Parse references from AST node
-function parseReferencesFromAST(expr: Node): { table: string; column: string } | undefined {
+function parseReferencesFromAST(expr: Node): ParsedColumn['references'] {
   try {
-    // Look for .references(() => tableName.columnName) pattern
+    // Look for .references(() => tableName.columnName, { onDelete, onUpdate }) pattern
     let currentExpr: Node = expr;
     
     while (isCallExpression(currentExpr)) {
@@ -582,10 +1939,15 @@ function parseReferencesFromAST(expr: Node): { table: string; column: string } |
           if (isIdentifier(body.object) && isIdentifier(body.property)) {
             const tableName = body.object.name;
             const columnName = body.property.name;
+            const options = currentExpr.arguments[1];
+            const onDeleteNode = options && isObjectExpression(options) ? getObjectProperty(options, 'onDelete') : null;
+            const onUpdateNode = options && isObjectExpression(options) ? getObjectProperty(options, 'onUpdate') : null;
             
             return {
               table: tableName,
-              column: columnName
+              column: columnName,
+              onDelete: onDeleteNode && isLiteral(onDeleteNode) ? normalizeReferentialAction(String(onDeleteNode.value)) : undefined,
+              onUpdate: onUpdateNode && isLiteral(onUpdateNode) ? normalizeReferentialAction(String(onUpdateNode.value)) : undefined
             };
           }
         }
@@ -606,24 +1968,44 @@ function parseReferencesFromAST(expr: Node): { table: string; column: string } |
   }
 }
 
+// Parse a schema split across files (schema/users.ts, schema/index.ts...): imports between
+// the files are resolved and they are merged into one module before parsing
+export function parseDrizzleSchemaFiles(files: SchemaFile[], casingSetting: CasingSetting = 'auto'): ParseResult {
+  const schemaFiles = files.filter(file => file.content.trim());
+  if (schemaFiles.length <= 1) {
+    return parseDrizzleSchema(schemaFiles[0]?.content ?? '', casingSetting);
+  }
+
+  let mergedCode: string;
+  try {
+    mergedCode = mergeSchemaFiles(schemaFiles);
+  } catch (error) {
+    // A file that does not parse yet (e.g. while typing) should not hide the others
+    console.warn('Resolving imports between schema files failed, parsing them as one file:', error);
+    mergedCode = schemaFiles.map(file => file.content).join('\n\n');
+  }
+  return parseDrizzleSchema(mergedCode, casingSetting);
+}
+
 // Fallback regex-based parser for simpler cases
-export function parseDrizzleSchemaFallback(schemaCode: string): ParseResult {
+export function parseDrizzleSchemaFallback(schemaCode: string, casingSetting: CasingSetting = 'auto'): ParseResult {
   try {
     const tables: ParsedTable[] = [];
     const relationships: ParsedRelationship[] = [];
     const enums: ParsedEnum[] = [];
+    const casing = resolveColumnCasing(schemaCode, casingSetting);
     
     // Match enum definitions
-    const enumRegex = /export const (\w+) = pgEnum\('[^']+',\s*\[([^\]]+)\]/g;
+    const enumRegex = /export const (\w+) = pgEnum\('([^']+)',\s*\[([^\]]+)\]/g;
     let enumMatch;
     while ((enumMatch = enumRegex.exec(schemaCode)) !== null) {
-      const [, enumName, valuesStr] = enumMatch;
+      const [, enumName, enumDbName, valuesStr] = enumMatch;
       const values = valuesStr.split(',').map(v => v.trim().replace(/['"]/g, ''));
-      enums.push({ name: enumName, values });
+      enums.push({ name: enumName, propertyName: enumName, dbName: enumDbName, values });
     }
     
-    // Match table definitions - support both pgTable and pgTableCreator
-    const tableRegex = /export const (\w+) = (?:pgTable|pgTableCreator(?:\([^)]+\))?)\('(\w+)',\s*{([^}]+)}/gs;
+    // Match table definitions - support pg/mysql/sqlite tables and their table creators
+    const tableRegex = /export const (\w+) = (?:pg|mysql|sqlite)Table(?:Creator(?:\([^)]+\))?)?\('(\w+)',\s*{([^}]+)}/gs;
     let tableMatch;
 
     while ((tableMatch = tableRegex.exec(schemaCode)) !== null) {
@@ -631,11 +2013,11 @@ export function parseDrizzleSchemaFallback(schemaCode: string): ParseResult {
       
       // Parse columns
       const columns: ParsedColumn[] = [];
-      const columnRegex = /(\w+):\s*(\w+)\([^)]*\)([^,\n]*)/g;
+      const columnRegex = /(\w+):\s*(\w+)\((?:\s*['"](\w+)['"])?[^)]*\)([^,\n]*)/g;
       let columnMatch;
       
       while ((columnMatch = columnRegex.exec(columnsStr)) !== null) {
-        const [, columnName, columnType, modifiers] = columnMatch;
+        const [, columnName, columnType, dbName, modifiers] = columnMatch;
         
         // Parse modifiers and references using utilities
         const parsedModifiers = parseColumnModifiers(modifiers);
@@ -643,19 +2025,29 @@ export function parseDrizzleSchemaFallback(schemaCode: string): ParseResult {
         
         columns.push({
           name: columnName,
-          type: columnType,
+          propertyName: columnName,
+          dbName: dbName || applyColumnCasing(columnName, casing),
+          type: parsedModifiers.isArray ? `${columnType}[]` : columnType,
           isPrimaryKey: parsedModifiers.isPrimaryKey,
           isUnique: parsedModifiers.isUnique,
           isNotNull: parsedModifiers.isNotNull,
-          references
+          isArray: parsedModifiers.isArray || undefined,
+          identity: parsedModifiers.identity,
+          references,
+          ...parseDefaultModifiers(modifiers)
         });
       }
 
+      const primaryKeyColumns = columns.filter(column => column.isPrimaryKey).map(column => column.name);
       tables.push({
         id: constName,
         name: tableName,
+        propertyName: constName,
+        dbName: tableName,
         columns,
         indexes: [],
+        constraints: [],
+        primaryKey: primaryKeyColumns.length > 0 ? { columns: primaryKeyColumns } : undefined,
         position: generateTablePosition(tables.length)
       });
     }
@@ -669,7 +2061,12 @@ export function parseDrizzleSchemaFallback(schemaCode: string): ParseResult {
             source: table.id,
             target: column.references.table,
             sourceColumn: column.name,
-            targetColumn: column.references.column
+            targetColumn: column.references.column,
+            sourceColumns: [column.name],
+            targetColumns: [column.references.column],
+            cardinality: 'many-to-one',
+            onDelete: column.references.onDelete,
+            onUpdate: column.references.onUpdate
           });
         }
       });
@@ -679,8 +2076,11 @@ export function parseDrizzleSchemaFallback(schemaCode: string): ParseResult {
       success: true,
       data: {
         tables,
-        relationships,
-        enums
+        views: [],
+        relationships: resolveRelationships(tables, relationships),
+        enums,
+        dialect: detectDrizzleDialect(schemaCode),
+        casing
       }
     };
   } catch (error) {
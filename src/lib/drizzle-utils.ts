@@ -1,13 +1,48 @@
 // Shared utilities for Drizzle ORM parsing
 // Following DRY (Don't Repeat Yourself) principle
 
-import { ParsedColumn, ParsedTable, ParsedSchema, SchemaStats } from '@/types/drizzle';
+import { ParsedColumn, ParsedTable, ParsedIndex, ParsedSchema, ParsedRelationship, SchemaStats, DatabaseDialect, ReferentialAction, NameDisplayMode, ParsedColumnDefault, ColumnDefaultKind, ColumnCasing, CasingSetting } from '@/types/drizzle';
 
 // Constants
 export const DEFAULT_Y_OFFSET = 50;
 export const TABLE_SPACING_X = 250;
 export const TABLE_SPACING_Y = 200;
 
+// Display names for database dialects
+export const DIALECT_LABELS: Record<DatabaseDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite'
+};
+
+// Edge style for the dependency of a view on the tables and views it reads
+export const VIEW_DEPENDENCY_STYLE = { label: 'View reads from', stroke: '#10b981', strokeDasharray: '4 4' };
+
+// Edge style of relations kept by the ORM without a database foreign key, e.g. Prisma relationMode = "prisma"
+export const EMULATED_RELATION_STYLE = { label: 'Emulated, no foreign key', strokeOpacity: 0.45 };
+
+// Edge style linking an enum to the columns typed with it
+export const ENUM_USAGE_STYLE = { label: 'Enum used by', stroke: '#a855f7', strokeDasharray: '1 5' };
+
+// Badge label and color for where a default value is produced
+export const DEFAULT_KIND_STYLES: Record<ColumnDefaultKind, { label: string; title: string; className: string }> = {
+  literal: { label: 'VAL', title: 'Literal value', className: 'bg-slate-100 text-slate-700' },
+  sql: { label: 'SQL', title: 'SQL expression evaluated by the database', className: 'bg-emerald-100 text-emerald-800' },
+  function: { label: 'FN', title: 'Function evaluated by the application', className: 'bg-sky-100 text-sky-800' }
+};
+
+// Edge styles for the ON DELETE action of a relationship
+export const REFERENTIAL_ACTION_STYLES: Record<'default' | 'cascade' | 'set-null' | 'restrict', {
+  label: string;
+  stroke: string;
+  strokeDasharray?: string;
+}> = {
+  default: { label: 'No action', stroke: '#6366f1' },
+  cascade: { label: 'Cascade', stroke: '#ef4444' },
+  'set-null': { label: 'Set null / default', stroke: '#f59e0b', strokeDasharray: '6 4' },
+  restrict: { label: 'Restrict', stroke: '#64748b', strokeDasharray: '2 3' }
+};
+
 // Example schema for demonstration
 export const EXAMPLE_DRIZZLE_SCHEMA = `import { pgTable, uuid, text, varchar, timestamp, integer, numeric, jsonb, pgEnum, boolean, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
@@ -91,23 +126,42 @@ export function getColumnTypeColor(type: string): string {
     case 'integer':
     case 'bigint':
     case 'int4':
+    case 'int':
+    case 'long':
+    case 'tinyint':
+    case 'smallint':
+    case 'mediumint':
       return 'bg-blue-50 text-blue-700 border border-blue-200';
     case 'varchar':
     case 'text':
+    case 'string':
     case 'char':
+    case 'tinytext':
+    case 'mediumtext':
+    case 'longtext':
       return 'bg-green-50 text-green-700 border border-green-200';
     case 'boolean':
+    case 'bool':
       return 'bg-purple-50 text-purple-700 border border-purple-200';
     case 'timestamp':
     case 'timestamptz':
     case 'date':
+    case 'datetime':
+    case 'time':
+    case 'year':
       return 'bg-orange-50 text-orange-700 border border-orange-200';
     case 'json':
     case 'jsonb':
+    case 'object':
       return 'bg-yellow-50 text-yellow-700 border border-yellow-200';
     case 'uuid':
+    case 'objectid':
       return 'bg-indigo-50 text-indigo-700 border border-indigo-200';
     case 'numeric':
+    case 'decimal':
+    case 'real':
+    case 'float':
+    case 'double':
       return 'bg-cyan-50 text-cyan-700 border border-cyan-200';
     default:
       return 'bg-secondary text-secondary-foreground border border-border';
@@ -150,9 +204,89 @@ export function validateTable(table: ParsedTable): boolean {
   );
 }
 
-// Generate unique relationship ID
-export function generateRelationshipId(sourceTable: string, sourceColumn: string, targetTable: string): string {
-  return `rel-${sourceTable}-${sourceColumn}-${targetTable}`;
+// Generate unique relationship ID (composite foreign keys join their columns,
+// named relations append their name to tell parallel relations apart)
+export function generateRelationshipId(sourceTable: string, sourceColumn: string | string[], targetTable: string, relationName?: string): string {
+  const columnKey = Array.isArray(sourceColumn) ? sourceColumn.join('_') : sourceColumn;
+  return `rel-${sourceTable}-${columnKey}-${targetTable}${relationName ? `-${relationName}` : ''}`;
+}
+
+// Check whether columns form a unique key of the table (unique column, primary key, unique index or constraint)
+export function isUniqueKey(table: ParsedTable | undefined, columns: string[]): boolean {
+  if (!table || columns.length === 0) return false;
+  const sameColumns = (other: string[]) => other.length === columns.length && other.every(c => columns.includes(c));
+
+  if (columns.length === 1) {
+    const column = table.columns.find(c => c.name === columns[0]);
+    if (column && (column.isUnique || (column.isPrimaryKey && !table.primaryKey))) return true;
+  }
+  if (table.primaryKey && sameColumns(table.primaryKey.columns)) return true;
+  // Partial and expression indexes don't make the plain columns unique
+  const isPlainUniqueIndex = (index: ParsedIndex) => index.isUnique && !index.where && !index.keys.some(key => key.expression);
+  return table.indexes.some(index => isPlainUniqueIndex(index) && sameColumns(index.columns)) ||
+    table.constraints.some(constraint => constraint.kind === 'unique' && sameColumns(constraint.columns));
+}
+
+// Resolve relationships once all tables are known:
+// - owning sides on a unique key become one-to-one
+// - back-references declared without columns (many(), Prisma list fields) are folded into
+//   their inverse relation, matched by relation name, so each relation is drawn once
+// - many-to-many relations without a join model fall back to both primary keys
+export function resolveRelationships(tables: ParsedTable[], relationships: ParsedRelationship[]): ParsedRelationship[] {
+  const tableMap = new Map(tables.map(table => [table.id, table]));
+  const isBackReference = (rel: ParsedRelationship) => rel.sourceColumns.length === 0;
+  const folded = new Set<ParsedRelationship>();
+
+  relationships.forEach(rel => {
+    if (rel.cardinality === 'many-to-one' && isUniqueKey(tableMap.get(rel.source), rel.sourceColumns)) {
+      rel.cardinality = 'one-to-one';
+    }
+  });
+
+  relationships.forEach(rel => {
+    if (!isBackReference(rel) || folded.has(rel)) return;
+
+    const candidates = relationships.filter(other =>
+      other !== rel &&
+      !folded.has(other) &&
+      other.targetField === undefined &&
+      other.source === rel.target &&
+      other.target === rel.source &&
+      (other.name ?? '') === (rel.name ?? '')
+    );
+    // Prefer the side holding the foreign key
+    const inverse = candidates.find(other => !isBackReference(other)) ?? candidates[0];
+
+    if (inverse) {
+      folded.add(rel);
+      inverse.targetField = rel.sourceField;
+      if (!isBackReference(inverse) && rel.cardinality === 'one-to-one') {
+        inverse.cardinality = 'one-to-one';
+      }
+    }
+  });
+
+  const resolved = relationships.filter(rel => !folded.has(rel));
+  resolved.forEach(rel => {
+    if (rel.cardinality === 'many-to-many' && isBackReference(rel)) {
+      rel.sourceColumns = tableMap.get(rel.source)?.primaryKey?.columns ?? [];
+      rel.targetColumns = tableMap.get(rel.target)?.primaryKey?.columns ?? [];
+      rel.sourceColumn = rel.sourceColumns[0] ?? '';
+      rel.targetColumn = rel.targetColumns[0] ?? '';
+    }
+  });
+
+  return resolved;
+}
+
+// Pick the ORM or database name of a table or column for display
+export function getDisplayName(item: { propertyName: string; dbName: string }, nameMode: NameDisplayMode): string {
+  return nameMode === 'database' ? item.dbName : item.propertyName;
+}
+
+// Tooltip of a displayed name: the other name, then the documentation written in the schema
+export function getNameTooltip(item: { propertyName: string; dbName: string; description?: string }, alternateMode: NameDisplayMode): string {
+  return [getDisplayName(item, alternateMode), item.description].filter(Boolean).join('\n\n');
 }
 
 // Format text for display
@@ -174,22 +308,140 @@ export function parseColumnModifiers(modifiers: string): {
   isUnique: boolean;
   isNotNull: boolean;
   hasDefault: boolean;
+  isArray: boolean;
+  identity?: ParsedColumn['identity'];
 } {
   return {
     isPrimaryKey: modifiers.includes('primaryKey()'),
     isUnique: modifiers.includes('unique()'),
     isNotNull: modifiers.includes('notNull()'),
-    hasDefault: modifiers.includes('default(') || modifiers.includes('defaultNow(')
+    hasDefault: modifiers.includes('default(') || modifiers.includes('defaultNow('),
+    isArray: modifiers.includes('.array()'),
+    identity: modifiers.includes('generatedAlwaysAsIdentity(')
+      ? 'always'
+      : modifiers.includes('generatedByDefaultAsIdentity(') ? 'by default' : undefined
   };
 }
 
+// Read the raw argument of a chained call like .default(...), balancing nested parentheses
+function getModifierArgument(modifiers: string, method: string): string | undefined {
+  const start = modifiers.indexOf(`.${method}(`);
+  if (start === -1) return undefined;
+
+  let depth = 0;
+  for (let i = start + method.length + 1; i < modifiers.length; i++) {
+    if (modifiers[i] === '(') {
+      depth++;
+    } else if (modifiers[i] === ')' && --depth === 0) {
+      return modifiers.slice(start + method.length + 2, i).trim();
+    }
+  }
+  return undefined;
+}
+
+// Show a $defaultFn/$onUpdate callback by its body, e.g. () => new Date() as new Date()
+function stripArrowFunction(source: string): string {
+  return source.replace(/^(?:async\s*)?\(\s*\)\s*=>\s*/, '');
+}
+
+// Read default and on-update values from column modifiers, e.g. .default(sql`now()`) or .$onUpdate(() => new Date())
+export function parseDefaultModifiers(modifiers: string): Pick<ParsedColumn, 'defaultValue' | 'onUpdateValue'> {
+  let defaultValue: ParsedColumnDefault | undefined;
+  let onUpdateValue: ParsedColumnDefault | undefined;
+
+  const defaultArg = getModifierArgument(modifiers, 'default');
+  const defaultFnArg = getModifierArgument(modifiers, '$defaultFn') ?? getModifierArgument(modifiers, '$default');
+  if (defaultArg) {
+    const sqlMatch = defaultArg.match(/^sql`([\s\S]*)`$/);
+    defaultValue = sqlMatch
+      ? { kind: 'sql', value: sqlMatch[1] }
+      : { kind: 'literal', value: defaultArg.replace(/^["`](.*)["`]$/, "'$1'") };
+  } else if (modifiers.includes('.defaultNow()')) {
+    defaultValue = { kind: 'sql', value: 'now()' };
+  } else if (modifiers.includes('.defaultRandom()')) {
+    defaultValue = { kind: 'sql', value: 'gen_random_uuid()' };
+  } else if (defaultFnArg) {
+    defaultValue = { kind: 'function', value: stripArrowFunction(defaultFnArg) };
+  }
+
+  const onUpdateArg = getModifierArgument(modifiers, '$onUpdateFn') ?? getModifierArgument(modifiers, '$onUpdate');
+  if (onUpdateArg) {
+    onUpdateValue = { kind: 'function', value: stripArrowFunction(onUpdateArg) };
+  } else if (modifiers.includes('.onUpdateNow()')) {
+    onUpdateValue = { kind: 'sql', value: 'now()' };
+  }
+
+  return { defaultValue, onUpdateValue };
+}
+
+// Detect the SQL dialect from drizzle-orm core imports or table builders
+export function detectDrizzleDialect(schemaCode: string): DatabaseDialect {
+  if (/['"]drizzle-orm\/mysql-core['"]/.test(schemaCode) || /\bmysqlTable(Creator)?\s*\(/.test(schemaCode)) {
+    return 'mysql';
+  }
+  if (/['"]drizzle-orm\/sqlite-core['"]/.test(schemaCode) || /\bsqliteTable(Creator)?\s*\(/.test(schemaCode)) {
+    return 'sqlite';
+  }
+  return 'postgresql';
+}
+
+// Pick the casing for database column names: the one set in the UI, or the casing option
+// passed to drizzle() or defineConfig() in drizzle.config.ts when set to auto
+export function resolveColumnCasing(schemaCode: string, casingSetting: CasingSetting): ColumnCasing | undefined {
+  if (casingSetting === 'none') return undefined;
+  if (casingSetting !== 'auto') return casingSetting;
+  const match = schemaCode.match(/\bcasing\s*:\s*['"`](snake_case|camelCase)['"`]/);
+  return match ? match[1] as ColumnCasing : undefined;
+}
+
+// Derive a database column name from its property name the way Drizzle does, e.g. createdAt -> created_at
+export function applyColumnCasing(name: string, casing: ColumnCasing | undefined): string {
+  if (!casing) return name;
+  const words = name.replace(/['\u2019]/g, '').match(/[\da-z]+|[A-Z]+(?![a-z])|[A-Z][\da-z]+/g) ?? [];
+  if (casing === 'snake_case') {
+    return words.map(word => word.toLowerCase()).join('_');
+  }
+  return words.map((word, index) => index === 0 ? word.toLowerCase() : `${word[0].toUpperCase()}${word.slice(1)}`).join('');
+}
+
+// Normalize Drizzle ('set null') and Prisma (SetNull) referential actions
+export function normalizeReferentialAction(action: string | undefined): ReferentialAction | undefined {
+  if (!action) return undefined;
+  const normalized = action
+    .replace(/['"]/g, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]/g, ' ')
+    .trim()
+    .toLowerCase();
+  const actions: ReferentialAction[] = ['cascade', 'restrict', 'no action', 'set null', 'set default'];
+  return actions.find(a => a === normalized);
+}
+
+// Map a referential action to its edge style key
+export function getReferentialActionStyleKey(action: ReferentialAction | undefined): keyof typeof REFERENTIAL_ACTION_STYLES {
+  switch (action) {
+    case 'cascade':
+      return 'cascade';
+    case 'set null':
+    case 'set default':
+      return 'set-null';
+    case 'restrict':
+      return 'restrict';
+    default:
+      return 'default';
+  }
+}
+
 // Extract references from column definition
-export function extractReferences(modifiers: string): { table: string; column: string } | undefined {
-  const referencesMatch = modifiers.match(/\.references\(\(\)\s*=>\s*(\w+)\.(\w+)\)/);
+export function extractReferences(modifiers: string): ParsedColumn['references'] {
+  const referencesMatch = modifiers.match(/\.references\(\(\)\s*=>\s*(\w+)\.(\w+)(?:\s*,\s*\{([^}]*)\})?\s*\)/);
   if (referencesMatch) {
+    const options = referencesMatch[3] || '';
     return {
       table: referencesMatch[1],
-      column: referencesMatch[2]
+      column: referencesMatch[2],
+      onDelete: normalizeReferentialAction(options.match(/onDelete:\s*['"]([^'"]+)['"]/)?.[1]),
+      onUpdate: normalizeReferentialAction(options.match(/onUpdate:\s*['"]([^'"]+)['"]/)?.[1])
     };
   }
   return undefined;
@@ -1,17 +1,40 @@
-
-
 import {
   ParsedColumn,
   ParsedTable,
   ParsedRelationship,
   ParseResult,
   ParsedEnum,
-  ParsedIndex
+  ParsedIndex,
+  ParsedIndexKey,
+  ParsedView,
+  ParsedConstraint,
+  ParsedPrimaryKey,
+  ParsedColumnDefault,
+  ParsedDatasource,
+  ParsedGenerator,
+  DatabaseDialect,
+  ReferentialAction,
+  SchemaFile
 } from '@/types/drizzle';
 import {
   generateTablePosition,
-  generateRelationshipId
+  generateRelationshipId,
+  resolveRelationships,
+  normalizeReferentialAction
 } from './drizzle-utils';
+import {
+  parsePsl,
+  formatPslValue,
+  formatPslError,
+  PslArgument,
+  PslAttribute,
+  PslBlock,
+  PslConfigBlock,
+  PslEnumBlock,
+  PslField,
+  PslModelBlock,
+  PslValue
+} from './prisma-psl';
 
 // Prisma field type mapping to database types
 const PRISMA_TYPE_MAPPING: Record<string, string> = {
@@ -26,35 +49,74 @@ const PRISMA_TYPE_MAPPING: Record<string, string> = {
   'Bytes': 'bytea'
 };
 
-interface PrismaModel {
-  name: string;
-  fields: PrismaField[];
-  indexes: ParsedIndex[];
-  attributes: PrismaModelAttribute[];
-}
-
-interface PrismaField {
-  name: string;
-  type: string;
-  isArray: boolean;
-  isOptional: boolean;
-  attributes: PrismaFieldAttribute[];
-}
-
-interface PrismaFieldAttribute {
-  name: string;
-  args: string[];
-}
-
-interface PrismaModelAttribute {
-  name: string;
-  args: string[];
-}
+// Field type mappings of the other datasource providers; PostgreSQL uses PRISMA_TYPE_MAPPING.
+// MongoDB types are named by their BSON type aliases
+const PROVIDER_TYPE_MAPPINGS: Record<string, Record<string, string>> = {
+  mysql: {
+    'String': 'varchar',
+    'Int': 'int',
+    'BigInt': 'bigint',
+    'Float': 'double',
+    'Decimal': 'decimal',
+    'Boolean': 'tinyint',
+    'DateTime': 'datetime',
+    'Json': 'json',
+    'Bytes': 'longblob'
+  },
+  sqlite: {
+    'String': 'text',
+    'Int': 'integer',
+    'BigInt': 'integer',
+    'Float': 'real',
+    'Decimal': 'decimal',
+    'Boolean': 'boolean',
+    'DateTime': 'datetime',
+    'Json': 'jsonb',
+    'Bytes': 'blob'
+  },
+  sqlserver: {
+    'String': 'nvarchar',
+    'Int': 'int',
+    'BigInt': 'bigint',
+    'Float': 'float',
+    'Decimal': 'decimal',
+    'Boolean': 'bit',
+    'DateTime': 'datetime2',
+    'Json': 'nvarchar',
+    'Bytes': 'varbinary'
+  },
+  cockroachdb: {
+    'String': 'string',
+    'Int': 'int4',
+    'BigInt': 'int8',
+    'Float': 'float8',
+    'Decimal': 'decimal',
+    'Boolean': 'bool',
+    'DateTime': 'timestamp',
+    'Json': 'jsonb',
+    'Bytes': 'bytes'
+  },
+  mongodb: {
+    'String': 'string',
+    'Int': 'int',
+    'BigInt': 'long',
+    'Float': 'double',
+    'Decimal': 'decimal',
+    'Boolean': 'bool',
+    'DateTime': 'date',
+    'Json': 'object',
+    'Bytes': 'binData'
+  }
+};
 
-interface PrismaEnum {
-  name: string;
-  values: string[];
-}
+// SQL dialect of each datasource provider the diagram knows
+const PROVIDER_DIALECTS: Record<string, DatabaseDialect> = {
+  postgresql: 'postgresql',
+  postgres: 'postgresql',
+  cockroachdb: 'postgresql',
+  mysql: 'mysql',
+  sqlite: 'sqlite'
+};
 
 /**
  * Main parser function for Prisma schemas
@@ -70,68 +132,15 @@ export function parsePrismaSchema(schemaCode: string): ParseResult {
       };
     }
 
-    // Clean the schema code
-    const cleanedCode = schemaCode
-      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
-      .replace(/\/\/.*$/gm, '') // Remove line comments
-      .trim();
-
-    if (!cleanedCode) {
-      return {
-        success: false,
-        error: 'Schema code is empty after cleaning'
-      };
-    }
-
-    // Check if the code looks like a Prisma schema
-    if (!cleanedCode.includes('model ') && !cleanedCode.includes('enum ')) {
-      return {
-        success: false,
-        error: 'No Prisma models or enums found. Make sure you have model definitions.'
-      };
-    }
-
-    const tables: ParsedTable[] = [];
-    const relationships: ParsedRelationship[] = [];
-    const enums: ParsedEnum[] = [];
-
-    // Parse enums first
-    const parsedEnums = parseEnums(cleanedCode);
-    enums.push(...parsedEnums);
-
-    // Parse models
-    const models = parseModels(cleanedCode);
-    
-    // Convert models to tables and extract relationships
-    models.forEach((model, index) => {
-      const table = convertModelToTable(model, index, parsedEnums);
-      if (table) {
-        tables.push(table);
-      }
-    });
-
-    // Extract relationships from @relation attributes
-    models.forEach(model => {
-      const modelRelationships = extractRelationships(model, models);
-      relationships.push(...modelRelationships);
-    });
-
-    // Validate parsed data
-    if (tables.length === 0 && enums.length === 0) {
+    if (!schemaCode.trim()) {
       return {
         success: false,
-        error: 'No valid Prisma models or enums found in the schema'
+        error: 'Schema code is empty'
       };
     }
 
-    return {
-      success: true,
-      data: {
-        tables,
-        relationships,
-        enums
-      }
-    };
+    const { blocks, errors } = parsePsl(schemaCode);
+    return buildPrismaSchema(blocks, errors.map(formatPslError), () => parsePrismaSchemaFallback(schemaCode));
   } catch (error) {
     console.error('Error parsing Prisma schema:', error);
     // Try fallback parser as last resort
@@ -147,227 +156,476 @@ export function parsePrismaSchema(schemaCode: string): ParseResult {
 }
 
 /**
- * Parse Prisma enums from schema
- * Example: enum Role { USER ADMIN }
+ * Parse a schema split across .prisma files (prismaSchemaFolder)
+ * Blocks refer to each other by name across files, so each file is parsed on its own
+ * and the blocks are put together; syntax errors name the file they occur in
  */
-function parseEnums(schemaCode: string): PrismaEnum[] {
-  const enums: PrismaEnum[] = [];
-  const enumRegex = /enum\s+(\w+)\s*\{([^}]+)\}/g;
-  let match;
-
-  while ((match = enumRegex.exec(schemaCode)) !== null) {
-    const [, name, valuesStr] = match;
-    const values = valuesStr
-      .split(/\s+/)
-      .map(v => v.trim())
-      .filter(v => v && !v.startsWith('//'));
-
-    enums.push({ name, values });
+export function parsePrismaSchemaFiles(files: SchemaFile[]): ParseResult {
+  const schemaFiles = files.filter(file => file.content.trim());
+  if (schemaFiles.length <= 1) {
+    return parsePrismaSchema(schemaFiles[0]?.content ?? '');
   }
 
-  return enums;
+  const joinedCode = schemaFiles.map(file => file.content).join('\n\n');
+  try {
+    const blocks: PslBlock[] = [];
+    const errors: string[] = [];
+    schemaFiles.forEach(file => {
+      const schema = parsePsl(file.content);
+      blocks.push(...schema.blocks);
+      errors.push(...schema.errors.map(error => `${file.path}: ${formatPslError(error)}`));
+    });
+    return buildPrismaSchema(blocks, errors, () => parsePrismaSchemaFallback(joinedCode));
+  } catch (error) {
+    console.error('Error parsing Prisma schema files:', error);
+    return parsePrismaSchemaFallback(joinedCode);
+  }
 }
 
 /**
- * Parse Prisma models from schema
- * Handles all field types, attributes, and model-level attributes
+ * Turn parsed PSL blocks into tables, views, enums and relationships
+ * Blocks with syntax errors are left out; when nothing usable is left, the regex fallback gets a try
  */
-function parseModels(schemaCode: string): PrismaModel[] {
-  const models: PrismaModel[] = [];
-  const modelRegex = /model\s+(\w+)\s*\{([^}]+)\}/g;
-  let match;
-
-  while ((match = modelRegex.exec(schemaCode)) !== null) {
-    const [, modelName, modelBody] = match;
-    const fields: PrismaField[] = [];
-    const indexes: ParsedIndex[] = [];
-    const attributes: PrismaModelAttribute[] = [];
-
-    // Split by lines and process each
-    const lines = modelBody.split('\n').map(l => l.trim()).filter(l => l);
-
-    for (const line of lines) {
-      // Skip comments
-      if (line.startsWith('//')) continue;
-
-      // Parse model-level attributes (@@index, @@unique, @@id)
-      if (line.startsWith('@@')) {
-        const attrMatch = line.match(/@@(\w+)\(([^)]*)\)/);
-        if (attrMatch) {
-          const [, attrName, attrArgs] = attrMatch;
-          attributes.push({ name: attrName, args: [attrArgs] });
-
-          // Handle indexes
-          if (attrName === 'index' || attrName === 'unique') {
-            const indexData = parseIndexAttribute(attrArgs);
-            if (indexData) {
-              indexes.push({
-                name: indexData.name || `${modelName}_${attrName}_${indexes.length}`,
-                columns: indexData.columns,
-                isUnique: attrName === 'unique'
-              });
-            }
-          }
-        }
-        continue;
-      }
+function buildPrismaSchema(blocks: PslBlock[], errors: string[], fallback: () => ParseResult): ParseResult {
+  const models = blocks.filter((block): block is PslModelBlock => block.kind === 'model');
+  const viewBlocks = blocks.filter((block): block is PslModelBlock => block.kind === 'view');
+  const enumBlocks = blocks.filter((block): block is PslEnumBlock => block.kind === 'enum');
+  // Composite types (MongoDB) are embedded in the models that use them
+  const types = blocks.filter((block): block is PslModelBlock => block.kind === 'type');
+  const datasource = parseDatasource(blocks);
+  const provider = datasource?.provider;
+
+  if (errors.length > 0) {
+    console.warn('Prisma schema syntax errors:', errors);
+  }
 
-      // Parse field
-      const field = parseField(line);
-      if (field) {
-        fields.push(field);
-      }
+  // Check if the code looks like a Prisma schema
+  if (models.length === 0 && viewBlocks.length === 0 && enumBlocks.length === 0) {
+    if (errors.length > 0) {
+      const fallbackResult = fallback();
+      return fallbackResult.success && fallbackResult.data && fallbackResult.data.tables.length > 0
+        ? fallbackResult
+        : { success: false, error: errors[0] };
     }
+    return {
+      success: false,
+      error: 'No Prisma models or enums found. Make sure you have model definitions.'
+    };
+  }
+
+  const tables: ParsedTable[] = [];
+  const relationships: ParsedRelationship[] = [];
+  const enums = enumBlocks.map(convertEnumBlock);
+
+  // Convert models to tables and extract relationships
+  models.forEach((model, index) => {
+    const table = convertModelToTable(model, index, enums, types, provider);
+    if (table) {
+      tables.push(table);
+    }
+  });
+
+  // Extract relationships from @relation attributes and back-relation fields
+  models.forEach(model => {
+    const modelRelationships = extractRelationships(model, models);
+    relationships.push(...modelRelationships);
+  });
+
+  // Parse views (views preview feature); their SQL lives in migrations, so dependencies are unknown
+  const views: ParsedView[] = viewBlocks
+    .map((view, index) => convertModelToTable(view, tables.length + index, enums, types, provider))
+    .filter((table): table is ParsedTable => table !== null)
+    .map(({ id, name, propertyName, dbName, schema, columns, description, position }) => ({
+      id,
+      name,
+      propertyName,
+      dbName,
+      schema,
+      materialized: false,
+      columns,
+      dependencies: [],
+      description,
+      position
+    }));
 
-    models.push({
-      name: modelName,
-      fields,
-      indexes,
-      attributes
+  // Validate parsed data
+  if (tables.length === 0 && views.length === 0 && enums.length === 0) {
+    return {
+      success: false,
+      error: 'No valid Prisma models or enums found in the schema'
+    };
+  }
+
+  // Implicit many-to-many relations get the join table Prisma creates for them
+  const joinTables = createImplicitJoinTables(
+    tables,
+    resolveRelationships(tables, relationships),
+    tables.length + views.length
+  );
+
+  // Without database foreign keys (relationMode = "prisma", always on MongoDB), Prisma Client keeps relations itself
+  if (datasource?.relationMode === 'prisma' || provider === 'mongodb') {
+    joinTables.relationships.forEach(rel => {
+      if (rel.sourceColumns.length > 0) {
+        rel.isEmulated = true;
+      }
     });
   }
 
-  return models;
+  return {
+    success: true,
+    data: {
+      tables: [...tables, ...joinTables.tables],
+      views,
+      relationships: joinTables.relationships,
+      enums,
+      dialect: provider ? PROVIDER_DIALECTS[provider] : undefined,
+      datasource,
+      generators: parseGenerators(blocks)
+    }
+  };
 }
 
 /**
- * Parse a single field from a Prisma model
- * Example: id Int @id @default(autoincrement())
- * Example: email String @unique
- * Example: posts Post[]
- * Example: userId Int?
+ * Replace implicit many-to-many relations (list fields on both sides, no join model) with the
+ * join table Prisma creates for them; its columns A and B reference the ids of the two models
+ * in alphabetical order
+ * Example: posts Post[] and tags Tag[] give _PostToTag, tags Tag[] @relation("PostTags") gives _PostTags
  */
-function parseField(line: string): PrismaField | null {
-  try {
-    // Basic field pattern: fieldName Type? @attributes
-    const fieldMatch = line.match(/^(\w+)\s+([\w\[\]?]+)(.*)$/);
-    if (!fieldMatch) return null;
+function createImplicitJoinTables(
+  tables: ParsedTable[],
+  relationships: ParsedRelationship[],
+  startIndex: number
+): { tables: ParsedTable[]; relationships: ParsedRelationship[] } {
+  const joinTables: ParsedTable[] = [];
+  const result: ParsedRelationship[] = [];
+
+  relationships.forEach(rel => {
+    const sourceTable = tables.find(table => table.id === rel.source);
+    const targetTable = tables.find(table => table.id === rel.target);
+    // Both models need a single-field id for Prisma to create the join table
+    if (
+      rel.cardinality !== 'many-to-many' || rel.through || !sourceTable || !targetTable ||
+      sourceTable.primaryKey?.columns.length !== 1 || targetTable.primaryKey?.columns.length !== 1
+    ) {
+      result.push(rel);
+      return;
+    }
 
-    const [, name, typeStr, attributesStr] = fieldMatch;
+    // Prisma orders the two models by byte order, so Zebra comes before apple
+    const sides = [
+      { table: sourceTable, field: rel.sourceField },
+      { table: targetTable, field: rel.targetField }
+    ].sort((a, b) => a.table.name < b.table.name ? -1 : a.table.name > b.table.name ? 1 : 0);
+    const name = `_${rel.name ?? `${sides[0].table.name}To${sides[1].table.name}`}`;
 
-    // Parse type
-    let type = typeStr;
-    const isArray = type.endsWith('[]');
-    const isOptional = type.endsWith('?');
-    
-    if (isArray) type = type.slice(0, -2);
-    if (isOptional) type = type.slice(0, -1);
-
-    // Parse attributes
-    const attributes: PrismaFieldAttribute[] = [];
-    const attrRegex = /@(\w+)(?:\(([^)]*)\))?/g;
-    let attrMatch;
-
-    while ((attrMatch = attrRegex.exec(attributesStr)) !== null) {
-      const [, attrName, attrArgs] = attrMatch;
-      attributes.push({
-        name: attrName,
-        args: attrArgs ? parseAttributeArgs(attrArgs) : []
-      });
-    }
+    const columns: ParsedColumn[] = sides.map(({ table }, index) => {
+      const columnName = index === 0 ? 'A' : 'B';
+      const idColumn = table.columns.find(column => column.name === table.primaryKey!.columns[0]);
+      return {
+        name: columnName,
+        propertyName: columnName,
+        dbName: columnName,
+        // The join table holds plain copies of the ids, not their sequences
+        type: (idColumn?.type ?? 'integer').replace(/^serial$/, 'integer').replace(/^bigserial$/, 'bigint'),
+        isPrimaryKey: true,
+        isUnique: false,
+        isNotNull: true,
+        references: { table: table.id, column: table.primaryKey!.columns[0], onDelete: 'cascade', onUpdate: 'cascade' }
+      };
+    });
 
-    return {
+    joinTables.push({
+      id: name,
       name,
-      type,
-      isArray,
-      isOptional,
-      attributes
-    };
-  } catch (error) {
-    console.error('Error parsing field:', line, error);
-    return null;
-  }
+      propertyName: name,
+      dbName: name,
+      schema: sides[0].table.schema,
+      columns,
+      indexes: [{ name: `${name}_B_index`, columns: ['B'], keys: [{ column: 'B' }], isUnique: false }],
+      constraints: [],
+      primaryKey: { name: `${name}_AB_pkey`, columns: ['A', 'B'] },
+      isVirtual: true,
+      position: generateTablePosition(startIndex + joinTables.length)
+    });
+
+    // One foreign key to each model; the list field on that model lists the rows of the other one
+    columns.forEach((column, index) => {
+      const target = column.references!;
+      result.push({
+        id: generateRelationshipId(name, column.name, target.table, rel.name),
+        source: name,
+        target: target.table,
+        sourceColumn: column.name,
+        targetColumn: target.column,
+        sourceColumns: [column.name],
+        targetColumns: [target.column],
+        cardinality: 'many-to-one',
+        name: rel.name,
+        targetField: sides[index].field,
+        onDelete: target.onDelete,
+        onUpdate: target.onUpdate
+      });
+    });
+  });
+
+  return { tables: joinTables, relationships: result };
 }
 
 /**
- * Parse attribute arguments
- * Handles: simple values, function calls, named arguments
+ * Read a property of a datasource or generator block
+ * Example: provider = "postgresql", previewFeatures = ["views"]
  */
-function parseAttributeArgs(argsStr: string): string[] {
-  const args: string[] = [];
-  let current = '';
-  let depth = 0;
-  let inString = false;
-  let stringChar = '';
-
-  for (let i = 0; i < argsStr.length; i++) {
-    const char = argsStr[i];
-
-    if ((char === '"' || char === "'") && (i === 0 || argsStr[i - 1] !== '\\')) {
-      if (!inString) {
-        inString = true;
-        stringChar = char;
-      } else if (char === stringChar) {
-        inString = false;
-      }
-      current += char;
-      continue;
-    }
+function getProperty(block: PslConfigBlock, key: string): PslValue | undefined {
+  return block.properties.find(property => property.key === key)?.value;
+}
 
-    if (inString) {
-      current += char;
-      continue;
-    }
+/**
+ * Read a property holding a string, or env("VAR") as written
+ * Example: output = "../generated/client", url = env("DATABASE_URL")
+ */
+function getStringProperty(block: PslConfigBlock, key: string): string | undefined {
+  const value = getProperty(block, key);
+  if (!value) return undefined;
+  return value.kind === 'string' ? value.value : formatPslValue(value);
+}
 
-    if (char === '(' || char === '[') {
-      depth++;
-      current += char;
-    } else if (char === ')' || char === ']') {
-      depth--;
-      current += char;
-    } else if (char === ',' && depth === 0) {
-      if (current.trim()) {
-        args.push(current.trim());
-      }
-      current = '';
-    } else {
-      current += char;
-    }
-  }
+/**
+ * Read a property holding a list, as strings or written out
+ * Example: schemas = ["auth", "billing"], extensions = [pg_trgm, citext(schema: "public")]
+ */
+function getListProperty(block: PslConfigBlock, key: string): string[] | undefined {
+  const value = getProperty(block, key);
+  if (value?.kind !== 'array') return undefined;
+  return value.items.map(item => item.kind === 'string' ? item.value : formatPslValue(item));
+}
 
-  if (current.trim()) {
-    args.push(current.trim());
-  }
+/**
+ * Parse the datasource block
+ * Example: datasource db { provider = "mysql" relationMode = "prisma" }
+ */
+function parseDatasource(blocks: PslBlock[]): ParsedDatasource | undefined {
+  const block = blocks.find((block): block is PslConfigBlock => block.kind === 'datasource');
+  const provider = block && getStringProperty(block, 'provider');
+  if (!block || !provider) return undefined;
+
+  const relationMode = getStringProperty(block, 'relationMode');
+  return {
+    name: block.name,
+    provider,
+    relationMode: relationMode === 'prisma' || relationMode === 'foreignKeys' ? relationMode : undefined,
+    schemas: getListProperty(block, 'schemas'),
+    extensions: getListProperty(block, 'extensions')
+  };
+}
 
-  return args;
+/**
+ * Parse the generator blocks
+ * Example: generator client { provider = "prisma-client-js" previewFeatures = ["views"] }
+ */
+function parseGenerators(blocks: PslBlock[]): ParsedGenerator[] {
+  return blocks
+    .filter((block): block is PslConfigBlock => block.kind === 'generator')
+    .map(block => ({
+      name: block.name,
+      provider: getStringProperty(block, 'provider') ?? '',
+      previewFeatures: getListProperty(block, 'previewFeatures') ?? [],
+      output: getStringProperty(block, 'output')
+    }));
 }
 
 /**
- * Parse @@index or @@unique attribute
+ * Convert a Prisma enum block
+ * Example: enum Role { USER ADMIN }
+ * Example: enum Role { USER @map("user") @@map("role") @@schema("auth") }
+ */
+function convertEnumBlock(block: PslEnumBlock): ParsedEnum {
+  return {
+    name: block.name,
+    propertyName: block.name,
+    dbName: getMappedName(block.attributes) || block.name,
+    schema: getSchemaName(block.attributes),
+    values: block.values.map(value => value.name),
+    description: block.documentation,
+    valueDescriptions: getValueDescriptions(block)
+  };
+}
+
+/**
+ * Collect the /// documentation of enum values
+ * Example: /// Can manage billing
+ *          ADMIN
+ */
+function getValueDescriptions(block: PslEnumBlock): Record<string, string> | undefined {
+  const documented = block.values.filter(value => value.documentation);
+  if (documented.length === 0) return undefined;
+  return Object.fromEntries(documented.map(value => [value.name, value.documentation!]));
+}
+
+/**
+ * Find an attribute by name
+ * Example: getAttribute(field.attributes, 'default') for @default(now())
+ */
+function getAttribute(attributes: PslAttribute[], name: string): PslAttribute | undefined {
+  return attributes.find(attr => attr.name === name);
+}
+
+/**
+ * Read an argument given by name or, failing that, by position among the unnamed ones
+ * Example: @relation("Author", fields: [authorId]) gives "Author" for name and [authorId] for fields
+ */
+function getArgument(args: PslArgument[], name: string, position?: number): PslValue | undefined {
+  const named = args.find(arg => arg.name === name);
+  if (named) return named.value;
+  return position !== undefined ? args.filter(arg => !arg.name)[position]?.value : undefined;
+}
+
+/**
+ * Read a string argument
+ * Example: @@index([email], map: "users_email_idx")
+ */
+function getStringArgument(args: PslArgument[], name: string, position?: number): string | undefined {
+  const value = getArgument(args, name, position);
+  return value?.kind === 'string' ? value.value : undefined;
+}
+
+/**
+ * Read the field names of a list argument
+ * Example: [userId, postId]
+ */
+function getFieldNames(value: PslValue | undefined): string[] | undefined {
+  if (value?.kind !== 'array') return undefined;
+  return value.items
+    .map(item => item.kind === 'identifier' ? item.name : item.kind === 'call' ? item.name : '')
+    .filter(Boolean);
+}
+
+/**
+ * Parse @@index, @@unique or @@id arguments
  * Example: @@index([userId, postId], name: "user_post_idx")
+ * Example: @@unique([email, tenantId], map: "users_email_tenant_key")
+ * Example: @@index([title(ops: raw("gin_trgm_ops")), createdAt(sort: Desc)], type: Gin)
  */
-function parseIndexAttribute(argsStr: string): { columns: string[]; name?: string } | null {
-  try {
-    const columns: string[] = [];
-    let name: string | undefined;
-
-    // Extract columns array
-    const columnsMatch = argsStr.match(/\[([^\]]+)\]/);
-    if (columnsMatch) {
-      const columnsStr = columnsMatch[1];
-      columns.push(...columnsStr.split(',').map(c => c.trim()));
-    }
+function parseIndexAttribute(args: PslArgument[]): {
+  columns: string[];
+  keys: ParsedIndexKey[];
+  name?: string;
+  map?: string;
+  type?: string;
+  where?: string;
+} | null {
+  // Fields come first or as fields: [...]
+  const fieldsArg = getArgument(args, 'fields', 0);
+  const keys = fieldsArg?.kind === 'array' ? fieldsArg.items.map(parseIndexField) : [];
+  const columns = keys.map(key => key.column).filter((column): column is string => !!column);
+
+  const typeArg = getArgument(args, 'type');
+  const whereArg = getArgument(args, 'where');
+
+  return columns.length > 0 ? {
+    columns,
+    keys,
+    name: getStringArgument(args, 'name'),
+    map: getStringArgument(args, 'map'),
+    type: typeArg?.kind === 'identifier' ? typeArg.name : undefined,
+    where: whereArg?.kind === 'call' && whereArg.name === 'raw' ? getStringArgument(whereArg.args, 'value', 0) : undefined
+  } : null;
+}
 
-    // Extract name if present
-    const nameMatch = argsStr.match(/name:\s*["']([^"']+)["']/);
-    if (nameMatch) {
-      name = nameMatch[1];
-    }
+/**
+ * Parse one field of an index, with its optional sort order and operator class
+ * Example: createdAt(sort: Desc)
+ * Example: data(ops: JsonbPathOps)
+ */
+function parseIndexField(value: PslValue): ParsedIndexKey {
+  if (value.kind === 'identifier') return { column: value.name };
+  if (value.kind !== 'call') return { expression: formatPslValue(value) };
+
+  const sort = getArgument(value.args, 'sort');
+  const ops = getArgument(value.args, 'ops');
+  return {
+    column: value.name,
+    order: sort?.kind === 'identifier' ? (sort.name === 'Desc' ? 'desc' : 'asc') : undefined,
+    opClass: ops?.kind === 'identifier'
+      ? ops.name
+      : ops?.kind === 'call' && ops.name === 'raw' ? getStringArgument(ops.args, 'value', 0) : undefined
+  };
+}
 
-    return columns.length > 0 ? { columns, name } : null;
-  } catch (error) {
-    console.error('Error parsing index attribute:', error);
-    return null;
+/**
+ * Prisma's default name for an unnamed unique constraint or index, built from database names
+ * Example: getDefaultIndexName('users', columns, ['firstName', 'lastName'], 'key') for users_first_name_last_name_key
+ */
+function getDefaultIndexName(tableDbName: string, columns: ParsedColumn[], columnNames: string[], suffix: 'key' | 'idx'): string {
+  const dbNames = columnNames.map(name => columns.find(column => column.name === name)?.dbName ?? name);
+  return `${tableDbName}_${dbNames.join('_')}_${suffix}`;
+}
+
+/**
+ * Collect unique constraints from @unique fields and @@unique attributes
+ * Unnamed constraints get Prisma's default name: {table}_{columns}_key
+ */
+function extractUniqueConstraints(model: PslModelBlock, tableDbName: string, columns: ParsedColumn[]): ParsedConstraint[] {
+  const constraints: ParsedConstraint[] = [];
+  const getDefaultName = (columnNames: string[]) => getDefaultIndexName(tableDbName, columns, columnNames, 'key');
+
+  for (const field of model.fields) {
+    const uniqueAttr = getAttribute(field.attributes, 'unique');
+    if (!uniqueAttr) continue;
+    constraints.push({
+      kind: 'unique',
+      name: getStringArgument(uniqueAttr.args, 'map') || getDefaultName([field.name]),
+      columns: [field.name]
+    });
+  }
+
+  for (const attr of model.attributes) {
+    if (attr.name !== 'unique') continue;
+    const uniqueData = parseIndexAttribute(attr.args);
+    if (!uniqueData) continue;
+    constraints.push({
+      kind: 'unique',
+      name: uniqueData.map || getDefaultName(uniqueData.columns),
+      columns: uniqueData.columns
+    });
+  }
+
+  return constraints;
+}
+
+/**
+ * Collect @@index attributes; @@unique becomes a constraint instead
+ * Unnamed indexes get Prisma's default name: {table}_{columns}_idx
+ * Example: @@index([email], type: Hash) for a hash index
+ */
+function extractIndexes(model: PslModelBlock, tableDbName: string, columns: ParsedColumn[]): ParsedIndex[] {
+  const indexes: ParsedIndex[] = [];
+  for (const attr of model.attributes) {
+    if (attr.name !== 'index') continue;
+    const indexData = parseIndexAttribute(attr.args);
+    if (!indexData) continue;
+    indexes.push({
+      name: indexData.map || indexData.name || getDefaultIndexName(tableDbName, columns, indexData.columns, 'idx'),
+      columns: indexData.columns,
+      keys: indexData.keys,
+      isUnique: false,
+      // Lowercase like the Drizzle parser's .using('gin')
+      method: indexData.type?.toLowerCase(),
+      where: indexData.where
+    });
   }
+  return indexes;
 }
 
 /**
  * Convert Prisma model to ParsedTable
  */
 function convertModelToTable(
-  model: PrismaModel,
+  model: PslModelBlock,
   index: number,
-  enums: PrismaEnum[]
+  enums: ParsedEnum[],
+  types: PslModelBlock[],
+  provider?: string
 ): ParsedTable | null {
   try {
     const columns: ParsedColumn[] = [];
@@ -376,25 +634,41 @@ function convertModelToTable(
       // Skip relation fields (they're handled separately)
       const isRelation = !PRISMA_TYPE_MAPPING[field.type] && 
                         !enums.some(e => e.name === field.type) &&
+                        !types.some(t => t.name === field.type) &&
                         field.type !== 'Unsupported';
 
-      if (isRelation && !field.attributes.some(a => a.name === 'relation')) {
-        // This is likely a relation field - skip for now
-        // Relations are extracted separately
+      // Relation fields, with or without @relation, become relationships and join tables, not columns
+      if (isRelation) {
         continue;
       }
 
-      const column = convertFieldToColumn(field, enums);
+      const column = convertFieldToColumn(field, enums, types, provider);
       if (column) {
         columns.push(column);
       }
     }
 
+    // Composite primary key from @@id([a, b]), otherwise the @id columns
+    const primaryKey = extractPrimaryKey(model);
+    columns.forEach(column => {
+      if (primaryKey?.columns.includes(column.name)) {
+        column.isPrimaryKey = true;
+      }
+    });
+
+    const dbName = getMappedName(model.attributes) || model.name;
+
     return {
       id: model.name,
       name: model.name,
+      propertyName: model.name,
+      dbName,
+      schema: getSchemaName(model.attributes),
       columns,
-      indexes: model.indexes,
+      indexes: extractIndexes(model, dbName, columns),
+      constraints: extractUniqueConstraints(model, dbName, columns),
+      primaryKey,
+      description: model.documentation,
       position: generateTablePosition(index)
     };
   } catch (error) {
@@ -403,13 +677,81 @@ function convertModelToTable(
   }
 }
 
+/**
+ * Map a @default argument to a literal, a database expression or a Prisma Client function
+ * Example: @default("draft"), @default(now()), @default(dbgenerated("gen_random_uuid()")), @default(cuid())
+ */
+function parseDefaultValue(value: PslValue): ParsedColumnDefault {
+  if (value.kind === 'call') {
+    if (value.name === 'dbgenerated') {
+      return { kind: 'sql', value: getStringArgument(value.args, 'value', 0) ?? 'dbgenerated()' };
+    }
+    // Generated by the database: now(), autoincrement(), sequence(), auto()
+    if (['now', 'autoincrement', 'sequence', 'auto'].includes(value.name)) {
+      return { kind: 'sql', value: formatPslValue(value) };
+    }
+    // Generated by Prisma Client: uuid(), cuid(), nanoid(), ulid()
+    return { kind: 'function', value: formatPslValue(value) };
+  }
+
+  // Strings, numbers, booleans, enum values and lists
+  return { kind: 'literal', value: value.kind === 'string' ? `'${value.value}'` : formatPslValue(value) };
+}
+
+/**
+ * Read the database name from @map("created_at") or @@map("users")
+ */
+function getMappedName(attributes: PslAttribute[]): string | undefined {
+  const mapAttr = getAttribute(attributes, 'map');
+  return mapAttr ? getStringArgument(mapAttr.args, 'name', 0) : undefined;
+}
+
+/**
+ * Read the database schema of a model with the multiSchema feature
+ * Example: @@schema("billing")
+ */
+function getSchemaName(attributes: PslAttribute[]): string | undefined {
+  const schemaAttr = getAttribute(attributes, 'schema');
+  return schemaAttr ? getStringArgument(schemaAttr.args, 'name', 0) : undefined;
+}
+
+/**
+ * Extract the table-level primary key of a model
+ * Example: @@id([postId, tagId], name: "post_tag_pk")
+ */
+function extractPrimaryKey(model: PslModelBlock): ParsedPrimaryKey | undefined {
+  const idAttr = getAttribute(model.attributes, 'id');
+  if (idAttr) {
+    const keyData = parseIndexAttribute(idAttr.args);
+    if (keyData) {
+      return { name: keyData.name, columns: keyData.columns };
+    }
+  }
+
+  const idFields = model.fields.filter(f => getAttribute(f.attributes, 'id'));
+  return idFields.length > 0 ? { columns: idFields.map(f => f.name) } : undefined;
+}
+
 /**
  * Convert Prisma field to ParsedColumn
+ * Fields of a composite type become the columns of the embedded document; typeNames holds the
+ * composite types already being expanded, so self-referencing types stop after one level
  */
-function convertFieldToColumn(field: PrismaField, enums: PrismaEnum[]): ParsedColumn | null {
+function convertFieldToColumn(
+  field: PslField,
+  enums: ParsedEnum[],
+  types: PslModelBlock[],
+  provider?: string,
+  typeNames: string[] = []
+): ParsedColumn | null {
   try {
-    // Determine the database type
-    let dbType = PRISMA_TYPE_MAPPING[field.type] || field.type.toLowerCase();
+    const typeMapping = (provider && PROVIDER_TYPE_MAPPINGS[provider]) || PRISMA_TYPE_MAPPING;
+    const compositeType = types.find(t => t.name === field.type);
+
+    // Determine the database type; Unsupported("circle") names it directly
+    let dbType = field.type === 'Unsupported'
+      ? getStringArgument(field.typeArgs, 'value', 0) ?? 'unsupported'
+      : compositeType ? field.type : typeMapping[field.type] || field.type.toLowerCase();
     
     // Check if it's an enum
     const isEnum = enums.some(e => e.name === field.type);
@@ -417,61 +759,62 @@ function convertFieldToColumn(field: PrismaField, enums: PrismaEnum[]): ParsedCo
       dbType = `enum(${field.type})`;
     }
 
+    // Check for special attributes
+    const idAttr = getAttribute(field.attributes, 'id');
+    const uniqueAttr = getAttribute(field.attributes, 'unique');
+    const defaultAttr = getAttribute(field.attributes, 'default');
+    const nativeTypeAttr = field.attributes.find(a => a.name.startsWith('db.'));
+
+    // Handle @db.X native type attributes, e.g. @db.VarChar(255) or @db.Decimal(10, 2);
+    // BSON aliases keep their inner capitals, e.g. @db.ObjectId is objectId
+    if (nativeTypeAttr) {
+      const nativeType = nativeTypeAttr.name.slice(3);
+      const typeArgs = nativeTypeAttr.args.map(arg => formatPslValue(arg.value));
+      dbType = provider === 'mongodb'
+        ? `${nativeType.charAt(0).toLowerCase()}${nativeType.slice(1)}`
+        : nativeType.toLowerCase();
+      if (typeArgs.length > 0) {
+        dbType += `(${typeArgs.join(', ')})`;
+      }
+    }
+
     // Add array notation if applicable
     if (field.isArray) {
       dbType += '[]';
     }
 
-    // Check for special attributes
-    const idAttr = field.attributes.find(a => a.name === 'id');
-    const uniqueAttr = field.attributes.find(a => a.name === 'unique');
-    const defaultAttr = field.attributes.find(a => a.name === 'default');
-    const dbAttr = field.attributes.find(a => a.name === 'db');
-
-    // Handle @db.X native type attributes
-    if (dbAttr && dbAttr.args.length > 0) {
-      const nativeType = dbAttr.args[0];
-      // Extract the actual type from @db.VarChar(255) etc.
-      const typeMatch = nativeType.match(/(\w+)(?:\(([^)]+)\))?/);
-      if (typeMatch) {
-        const [, typeName, typeArgs] = typeMatch;
-        dbType = typeName.toLowerCase();
-        if (typeArgs) {
-          dbType += `(${typeArgs})`;
-        }
-      }
-    }
+    const defaultArg = defaultAttr ? getArgument(defaultAttr.args, 'value', 0) : undefined;
 
-    // Handle autoincrement for Int fields with @id
-    if (idAttr && field.type === 'Int') {
-      const autoInc = defaultAttr?.args.some(arg => arg.includes('autoincrement'));
-      if (autoInc) {
-        dbType = 'serial';
-      }
+    // Handle autoincrement for Int fields with @id, a serial column on PostgreSQL
+    if (idAttr && field.type === 'Int' && typeMapping === PRISMA_TYPE_MAPPING && defaultArg?.kind === 'call' && defaultArg.name === 'autoincrement') {
+      dbType = 'serial';
     }
 
-    // Handle UUID default
-    let defaultValue: string | undefined;
-    if (defaultAttr) {
-      const defaultArg = defaultAttr.args[0] || '';
-      if (defaultArg.includes('uuid()') || defaultArg.includes('cuid()')) {
-        defaultValue = 'gen_random_uuid()';
-      } else if (defaultArg.includes('now()')) {
-        defaultValue = 'now()';
-      } else if (defaultArg.includes('autoincrement()')) {
-        defaultValue = 'autoincrement';
-      } else {
-        defaultValue = defaultArg;
-      }
-    }
+    const defaultValue = defaultArg ? parseDefaultValue(defaultArg) : undefined;
+    // @updatedAt is set by Prisma Client on every update
+    const onUpdateValue: ParsedColumnDefault | undefined = getAttribute(field.attributes, 'updatedAt')
+      ? { kind: 'function', value: 'now()' }
+      : undefined;
 
     return {
       name: field.name,
+      propertyName: field.name,
+      dbName: getMappedName(field.attributes) || field.name,
       type: dbType,
       isPrimaryKey: !!idAttr,
       isUnique: !!uniqueAttr,
       isNotNull: !field.isOptional,
-      defaultValue
+      defaultValue,
+      onUpdateValue,
+      isArray: field.isArray || undefined,
+      enumName: isEnum ? field.type : undefined,
+      description: field.documentation,
+      compositeType: compositeType && !typeNames.includes(compositeType.name) ? {
+        name: compositeType.name,
+        columns: compositeType.fields
+          .map(typeField => convertFieldToColumn(typeField, enums, types, provider, [...typeNames, compositeType.name]))
+          .filter((column): column is ParsedColumn => column !== null)
+      } : undefined
     };
   } catch (error) {
     console.error('Error converting field to column:', error);
@@ -480,39 +823,45 @@ function convertFieldToColumn(field: PrismaField, enums: PrismaEnum[]): ParsedCo
 }
 
 /**
- * Extract relationships from @relation attributes
+ * Extract relationships from @relation attributes and back-relation fields
  * Handles both explicit and implicit relations
  */
-function extractRelationships(model: PrismaModel, allModels: PrismaModel[]): ParsedRelationship[] {
+function extractRelationships(model: PslModelBlock, allModels: PslModelBlock[]): ParsedRelationship[] {
   const relationships: ParsedRelationship[] = [];
 
   for (const field of model.fields) {
-    const relationAttr = field.attributes.find(a => a.name === 'relation');
+    const relationAttr = getAttribute(field.attributes, 'relation');
     
     // Check if this is a relation field
     const targetModel = allModels.find(m => m.name === field.type);
     if (!targetModel) continue;
 
     // Parse @relation attribute
-    if (relationAttr && relationAttr.args.length > 0) {
-      const relationData = parseRelationAttribute(relationAttr.args);
-      
-      if (relationData.fields && relationData.references) {
-        // This is the "owning" side of the relation
-        for (let i = 0; i < relationData.fields.length; i++) {
-          const sourceColumn = relationData.fields[i];
-          const targetColumn = relationData.references[i] || relationData.references[0];
-
-          relationships.push({
-            id: generateRelationshipId(model.name, sourceColumn, field.type),
-            source: model.name,
-            target: field.type,
-            sourceColumn,
-            targetColumn
-          });
-        }
-      }
-    } else if (!field.isArray) {
+    const relationData = relationAttr ? parseRelationAttribute(relationAttr.args) : {};
+
+    if (relationData.fields && relationData.references) {
+      // This is the "owning" side of the relation; composite keys stay one relationship
+      const sourceColumns = relationData.fields;
+      const targetColumns = relationData.references;
+
+      relationships.push({
+        id: generateRelationshipId(model.name, sourceColumns, field.type, relationData.name),
+        source: model.name,
+        target: field.type,
+        sourceColumn: sourceColumns[0],
+        targetColumn: targetColumns[0],
+        sourceColumns,
+        targetColumns,
+        cardinality: 'many-to-one',
+        name: relationData.name,
+        sourceField: field.name,
+        onDelete: relationData.onDelete,
+        onUpdate: relationData.onUpdate
+      });
+      continue;
+    }
+
+    if (!field.isArray) {
       // Implicit relation - look for foreign key field
       const fkFieldName = `${field.name}Id`;
       const fkField = model.fields.find(f => 
@@ -521,68 +870,81 @@ function extractRelationships(model: PrismaModel, allModels: PrismaModel[]): Par
         f.name.toLowerCase() === `${field.name.toLowerCase()}id`
       );
 
-      if (fkField) {
-        // Find the primary key of the target model
-        const targetPk = targetModel.fields.find(f => 
-          f.attributes.some(a => a.name === 'id')
-        );
-
-        if (targetPk) {
-          relationships.push({
-            id: generateRelationshipId(model.name, fkField.name, field.type),
-            source: model.name,
-            target: field.type,
-            sourceColumn: fkField.name,
-            targetColumn: targetPk.name
-          });
-        }
+      // Find the primary key of the target model
+      const targetPk = targetModel.fields.find(f => getAttribute(f.attributes, 'id'));
+
+      if (fkField && targetPk) {
+        relationships.push({
+          id: generateRelationshipId(model.name, fkField.name, field.type),
+          source: model.name,
+          target: field.type,
+          sourceColumn: fkField.name,
+          targetColumn: targetPk.name,
+          sourceColumns: [fkField.name],
+          targetColumns: [targetPk.name],
+          cardinality: 'many-to-one',
+          sourceField: field.name
+        });
+        continue;
       }
     }
+
+    // Back-relation field (posts Post[] or profile Profile?); the columns are
+    // taken from the owning side once all relationships are known
+    const inverseIsList = targetModel.fields.some(f =>
+      f !== field && f.type === model.name && f.isArray && getRelationName(f) === relationData.name
+    );
+    relationships.push({
+      id: generateRelationshipId(model.name, field.name, field.type, relationData.name),
+      source: model.name,
+      target: field.type,
+      sourceColumn: '',
+      targetColumn: '',
+      sourceColumns: [],
+      targetColumns: [],
+      cardinality: field.isArray ? (inverseIsList ? 'many-to-many' : 'one-to-many') : 'one-to-one',
+      name: relationData.name,
+      sourceField: field.name
+    });
   }
 
   return relationships;
 }
 
+/**
+ * Get the relation name of a field
+ * Example: replies Comment[] @relation("CommentReplies")
+ */
+function getRelationName(field: PslField): string | undefined {
+  const relationAttr = getAttribute(field.attributes, 'relation');
+  return relationAttr ? parseRelationAttribute(relationAttr.args).name : undefined;
+}
+
 /**
  * Parse @relation attribute arguments
- * Example: @relation(fields: [userId], references: [id])
+ * Example: @relation(fields: [userId], references: [id], onDelete: Cascade)
+ * Example: @relation("CommentReplies")
  */
-function parseRelationAttribute(args: string[]): {
+function parseRelationAttribute(args: PslArgument[]): {
   name?: string;
   fields?: string[];
   references?: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
 } {
-  const result: {
-    name?: string;
-    fields?: string[];
-    references?: string[];
-  } = {};
-
-  for (const arg of args) {
-    // Parse named arguments
-    const namedMatch = arg.match(/(\w+):\s*(.+)/);
-    if (namedMatch) {
-      const [, key, value] = namedMatch;
-      
-      if (key === 'fields' || key === 'references') {
-        // Parse array: [field1, field2]
-        const arrayMatch = value.match(/\[([^\]]+)\]/);
-        if (arrayMatch) {
-          result[key] = arrayMatch[1].split(',').map(v => v.trim());
-        }
-      } else if (key === 'name') {
-        // Parse string value
-        result.name = value.replace(/['"]/g, '');
-      }
-    } else {
-      // First argument without key is the relation name
-      if (!result.name) {
-        result.name = arg.replace(/['"]/g, '');
-      }
-    }
-  }
-
-  return result;
+  // Referential actions: Cascade, Restrict, NoAction, SetNull, SetDefault
+  const getAction = (key: string) => {
+    const value = getArgument(args, key);
+    return value?.kind === 'identifier' ? normalizeReferentialAction(value.name) : undefined;
+  };
+
+  return {
+    name: getStringArgument(args, 'name', 0),
+    fields: getFieldNames(getArgument(args, 'fields')),
+    references: getFieldNames(getArgument(args, 'references')),
+    onDelete: getAction('onDelete'),
+    onUpdate: getAction('onUpdate')
+  };
 }
 
 /**
@@ -600,7 +962,7 @@ export function parsePrismaSchemaFallback(schemaCode: string): ParseResult {
     while ((enumMatch = enumRegex.exec(schemaCode)) !== null) {
       const [, name, valuesStr] = enumMatch;
       const values = valuesStr.split(/\s+/).map(v => v.trim()).filter(v => v);
-      enums.push({ name, values });
+      enums.push({ name, propertyName: name, dbName: name, values });
     }
 
     // Parse models
@@ -629,8 +991,12 @@ export function parsePrismaSchemaFallback(schemaCode: string): ParseResult {
           const isUnique = trimmed.includes('@unique');
           const isOptional = typeStr.includes('?');
 
+          const mapMatch = trimmed.match(/@map\(\s*(?:name:\s*)?["']([^"']+)["']/);
+
           columns.push({
             name: fieldName,
+            propertyName: fieldName,
+            dbName: mapMatch ? mapMatch[1] : fieldName,
             type: PRISMA_TYPE_MAPPING[typeStr.replace(/[\[\]?]/g, '')] || typeStr,
             isPrimaryKey,
             isUnique,
@@ -640,11 +1006,15 @@ export function parsePrismaSchemaFallback(schemaCode: string): ParseResult {
       }
 
       if (columns.length > 0) {
+        const tableMapMatch = modelBody.match(/@@map\(\s*(?:name:\s*)?["']([^"']+)["']/);
         tables.push({
           id: modelName,
           name: modelName,
+          propertyName: modelName,
+          dbName: tableMapMatch ? tableMapMatch[1] : modelName,
           columns,
           indexes: [],
+          constraints: [],
           position: generateTablePosition(tableIndex++)
         });
       }
@@ -654,6 +1024,7 @@ export function parsePrismaSchemaFallback(schemaCode: string): ParseResult {
       success: true,
       data: {
         tables,
+        views: [],
         relationships,
         enums
       }
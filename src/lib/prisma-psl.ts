@@ -0,0 +1,544 @@
+/**
+ * Lexer and recursive-descent parser for the Prisma Schema Language (PSL)
+ * Produces a syntax tree of model, view, type, enum, datasource and generator blocks
+ * with source positions; schema semantics (tables, relations) live in prisma-parser
+ */
+
+export interface PslPosition {
+  // 0-based offset into the source, 1-based line and column
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface PslRange {
+  start: PslPosition;
+  end: PslPosition;
+}
+
+export type PslTokenKind = 'identifier' | 'string' | 'number' | 'punctuation' | 'newline' | 'docComment' | 'eof';
+
+export interface PslToken extends PslRange {
+  kind: PslTokenKind;
+  // Identifier name, unescaped string contents, number text, punctuation or doc comment text
+  value: string;
+}
+
+// A value in an attribute argument or a datasource/generator property
+export type PslValue =
+  | { kind: 'string'; value: string; range: PslRange }
+  | { kind: 'number'; value: string; range: PslRange }
+  | { kind: 'identifier'; name: string; range: PslRange }
+  | { kind: 'array'; items: PslValue[]; range: PslRange }
+  | { kind: 'call'; name: string; args: PslArgument[]; range: PslRange };
+
+// Attribute or call argument, positional or named (fields: [userId])
+export interface PslArgument {
+  name?: string;
+  value: PslValue;
+  range: PslRange;
+}
+
+// @id, @db.VarChar(255) or, with isBlockAttribute, @@index([email])
+export interface PslAttribute {
+  name: string;
+  args: PslArgument[];
+  isBlockAttribute: boolean;
+  range: PslRange;
+}
+
+export interface PslField {
+  name: string;
+  type: string;
+  // Arguments of Unsupported("circle")
+  typeArgs: PslArgument[];
+  isArray: boolean;
+  isOptional: boolean;
+  attributes: PslAttribute[];
+  // Text of the /// comments above the field or after it on the same line
+  documentation?: string;
+  range: PslRange;
+}
+
+export interface PslEnumValue {
+  name: string;
+  attributes: PslAttribute[];
+  documentation?: string;
+  range: PslRange;
+}
+
+export interface PslProperty {
+  key: string;
+  value: PslValue;
+  range: PslRange;
+}
+
+// model, view and composite type blocks share the field syntax
+export interface PslModelBlock {
+  kind: 'model' | 'view' | 'type';
+  name: string;
+  fields: PslField[];
+  attributes: PslAttribute[];
+  documentation?: string;
+  range: PslRange;
+}
+
+export interface PslEnumBlock {
+  kind: 'enum';
+  name: string;
+  values: PslEnumValue[];
+  attributes: PslAttribute[];
+  documentation?: string;
+  range: PslRange;
+}
+
+// datasource and generator blocks hold key = value properties
+export interface PslConfigBlock {
+  kind: 'datasource' | 'generator';
+  name: string;
+  properties: PslProperty[];
+  range: PslRange;
+}
+
+export type PslBlock = PslModelBlock | PslEnumBlock | PslConfigBlock;
+
+export interface PslSyntaxError {
+  message: string;
+  position: PslPosition;
+}
+
+export interface PslSchema {
+  blocks: PslBlock[];
+  errors: PslSyntaxError[];
+}
+
+const MODEL_KEYWORDS = ['model', 'view', 'type'];
+const CONFIG_KEYWORDS = ['datasource', 'generator'];
+const PUNCTUATION = ['{', '}', '(', ')', '[', ']', ',', ':', '=', '?', '.'];
+
+/**
+ * Split PSL source into tokens
+ * Line comments are dropped, /// doc comments are kept, newlines are tokens since they end fields
+ * Example: id Int @id -> identifier(id) identifier(Int) punctuation(@) identifier(id) newline
+ */
+export function tokenizePsl(source: string): { tokens: PslToken[]; errors: PslSyntaxError[] } {
+  const tokens: PslToken[] = [];
+  const errors: PslSyntaxError[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): PslPosition => ({ offset, line, column });
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+  const push = (kind: PslTokenKind, value: string, start: PslPosition) => {
+    tokens.push({ kind, value, start, end: position() });
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const start = position();
+
+    if (char === '\n') {
+      advance();
+      push('newline', '\n', start);
+    } else if (/\s/.test(char)) {
+      advance();
+    } else if (source.startsWith('///', offset)) {
+      const endOfLine = source.indexOf('\n', offset);
+      const text = source.slice(offset + 3, endOfLine < 0 ? source.length : endOfLine);
+      advance(text.length + 3);
+      push('docComment', text.trim(), start);
+    } else if (source.startsWith('//', offset)) {
+      while (offset < source.length && source[offset] !== '\n') advance();
+    } else if (source.startsWith('/*', offset)) {
+      // Not part of PSL, but harmless to skip
+      const endOfComment = source.indexOf('*/', offset + 2);
+      advance((endOfComment < 0 ? source.length : endOfComment + 2) - offset);
+    } else if (char === '"') {
+      advance();
+      let value = '';
+      while (offset < source.length && source[offset] !== '"' && source[offset] !== '\n') {
+        if (source[offset] === '\\' && offset + 1 < source.length) {
+          const escaped = source[offset + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          advance(2);
+        } else {
+          value += source[offset];
+          advance();
+        }
+      }
+      if (source[offset] === '"') {
+        advance();
+      } else {
+        errors.push({ message: 'Unterminated string', position: start });
+      }
+      push('string', value, start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(offset).match(/^[A-Za-z_][\w-]*/)!;
+      advance(match[0].length);
+      push('identifier', match[0], start);
+    } else if (/[-\d]/.test(char) && /^-?\d/.test(source.slice(offset, offset + 2))) {
+      const match = source.slice(offset).match(/^-?\d+(\.\d+)?/)!;
+      advance(match[0].length);
+      push('number', match[0], start);
+    } else if (char === '@') {
+      const isBlockAttribute = source[offset + 1] === '@';
+      advance(isBlockAttribute ? 2 : 1);
+      push('punctuation', isBlockAttribute ? '@@' : '@', start);
+    } else if (PUNCTUATION.includes(char)) {
+      advance();
+      push('punctuation', char, start);
+    } else {
+      errors.push({ message: `Unexpected character '${char}'`, position: start });
+      advance();
+    }
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: position(), end: position() });
+  return { tokens, errors };
+}
+
+/**
+ * Parse PSL source into blocks
+ * A syntax error skips to the end of the block it occurs in, so the other blocks are still returned
+ */
+export function parsePsl(source: string): PslSchema {
+  const { tokens, errors } = tokenizePsl(source);
+  let index = 0;
+
+  const peek = (ahead = 0) => tokens[Math.min(index + ahead, tokens.length - 1)];
+  const next = () => {
+    const token = peek();
+    if (index < tokens.length - 1) index++;
+    return token;
+  };
+  const isPunctuation = (value: string, token = peek()) => token.kind === 'punctuation' && token.value === value;
+  const fail = (message: string, token = peek()): never => {
+    throw Object.assign(new Error(message), { position: token.start });
+  };
+  const expectPunctuation = (value: string) => {
+    if (!isPunctuation(value)) fail(`Expected '${value}' but found ${describeToken(peek())}`);
+    return next();
+  };
+  const expectIdentifier = () => {
+    if (peek().kind !== 'identifier') fail(`Expected a name but found ${describeToken(peek())}`);
+    return next();
+  };
+  // /// comments waiting for the block, field or enum value they document; a blank line drops them
+  let documentation: string[] = [];
+  const skipNewlines = () => {
+    while (peek().kind === 'newline' || peek().kind === 'docComment') {
+      const token = next();
+      if (token.kind === 'docComment') {
+        documentation.push(token.value);
+      } else if (tokens[index - 2]?.kind === 'newline') {
+        documentation = [];
+      }
+    }
+  };
+  const takeDocumentation = () => {
+    const text = documentation.join('\n').trim();
+    documentation = [];
+    return text || undefined;
+  };
+  // A /// comment after a field or enum value on the same line documents it too
+  const withTrailingDocumentation = (leading?: string) => {
+    if (peek().kind !== 'docComment') return leading;
+    return [leading, next().value].filter(Boolean).join('\n') || undefined;
+  };
+  const rangeFrom = (start: PslToken): PslRange => ({ start: start.start, end: tokens[Math.max(index - 1, 0)].end });
+
+  // Skip past the closing brace of the current block, or to the next line when there is none
+  const recover = (braceDepth: number) => {
+    let depth = braceDepth;
+    while (peek().kind !== 'eof') {
+      const token = next();
+      if (isPunctuation('{', token)) depth++;
+      if (isPunctuation('}', token)) depth--;
+      if (depth <= 0 && (token.kind === 'newline' || isPunctuation('}', token))) return;
+    }
+  };
+
+  /**
+   * Value: "text", 42, Cascade, [a, b], now(), dbgenerated("..."), title(sort: Desc), env("URL")
+   */
+  const parseValue = (): PslValue => {
+    const token = peek();
+    if (token.kind === 'string') {
+      next();
+      return { kind: 'string', value: token.value, range: rangeFrom(token) };
+    }
+    if (token.kind === 'number') {
+      next();
+      return { kind: 'number', value: token.value, range: rangeFrom(token) };
+    }
+    if (isPunctuation('[')) {
+      next();
+      const items: PslValue[] = [];
+      skipNewlines();
+      while (!isPunctuation(']')) {
+        items.push(parseValue());
+        skipNewlines();
+        if (!isPunctuation(',')) break;
+        next();
+        skipNewlines();
+      }
+      expectPunctuation(']');
+      return { kind: 'array', items, range: rangeFrom(token) };
+    }
+    if (token.kind === 'identifier') {
+      next();
+      // Dotted names such as a.b are kept whole
+      let name = token.value;
+      while (isPunctuation('.') && peek(1).kind === 'identifier') {
+        next();
+        name += `.${next().value}`;
+      }
+      if (isPunctuation('(')) {
+        return { kind: 'call', name, args: parseArguments(), range: rangeFrom(token) };
+      }
+      return { kind: 'identifier', name, range: rangeFrom(token) };
+    }
+    return fail(`Expected a value but found ${describeToken(token)}`);
+  };
+
+  /**
+   * Argument list in parentheses, newlines allowed: (fields: [userId], references: [id])
+   */
+  const parseArguments = (): PslArgument[] => {
+    expectPunctuation('(');
+    const args: PslArgument[] = [];
+    skipNewlines();
+    while (!isPunctuation(')')) {
+      const start = peek();
+      const isNamed = start.kind === 'identifier' && isPunctuation(':', peek(1));
+      if (isNamed) {
+        next();
+        next();
+        skipNewlines();
+      }
+      const value = parseValue();
+      args.push({ name: isNamed ? start.value : undefined, value, range: rangeFrom(start) });
+      skipNewlines();
+      if (!isPunctuation(',')) break;
+      next();
+      skipNewlines();
+    }
+    expectPunctuation(')');
+    return args;
+  };
+
+  /**
+   * Attribute: @id, @default(now()), @db.VarChar(255), @@index([email], type: Hash)
+   */
+  const parseAttribute = (): PslAttribute => {
+    const start = next();
+    let name = expectIdentifier().value;
+    while (isPunctuation('.')) {
+      next();
+      name += `.${expectIdentifier().value}`;
+    }
+    const args = isPunctuation('(') ? parseArguments() : [];
+    return { name, args, isBlockAttribute: start.value === '@@', range: rangeFrom(start) };
+  };
+
+  const parseFieldAttributes = (): PslAttribute[] => {
+    const attributes: PslAttribute[] = [];
+    while (isPunctuation('@')) {
+      attributes.push(parseAttribute());
+    }
+    return attributes;
+  };
+
+  const expectEndOfLine = () => {
+    if (!['newline', 'docComment', 'eof'].includes(peek().kind) && !isPunctuation('}')) {
+      fail(`Unexpected ${describeToken(peek())}`);
+    }
+  };
+
+  /**
+   * Field: name Type, name Type?, name Type[], name Unsupported("circle")?, followed by attributes
+   */
+  const parseField = (leadingDocumentation?: string): PslField => {
+    const start = expectIdentifier();
+    const typeToken = expectIdentifier();
+    let type = typeToken.value;
+    while (isPunctuation('.')) {
+      next();
+      type += `.${expectIdentifier().value}`;
+    }
+    const typeArgs = isPunctuation('(') ? parseArguments() : [];
+    let isArray = false;
+    let isOptional = false;
+    if (isPunctuation('[')) {
+      next();
+      expectPunctuation(']');
+      isArray = true;
+    }
+    if (isPunctuation('?')) {
+      next();
+      isOptional = true;
+    }
+    const attributes = parseFieldAttributes();
+    expectEndOfLine();
+    const range = rangeFrom(start);
+    const documentation = withTrailingDocumentation(leadingDocumentation);
+    return { name: start.value, type, typeArgs, isArray, isOptional, attributes, documentation, range };
+  };
+
+  // Run one line of a block body; on a syntax error, record it and skip the line,
+  // including arguments that continue on the next lines (braces never occur inside them)
+  const parseLine = (parse: (documentation?: string) => void) => {
+    const lineStart = index;
+    const lineDocumentation = takeDocumentation();
+    try {
+      parse(lineDocumentation);
+    } catch (error) {
+      const position = (error as { position?: PslPosition }).position ?? peek().start;
+      errors.push({ message: error instanceof Error ? error.message : String(error), position });
+      index = lineStart;
+      let depth = 0;
+      while (peek().kind !== 'eof' && !isPunctuation('}') && !(depth === 0 && peek().kind === 'newline')) {
+        const token = next();
+        if (isPunctuation('(', token) || isPunctuation('[', token)) depth++;
+        if ((isPunctuation(')', token) || isPunctuation(']', token)) && depth > 0) depth--;
+      }
+    }
+  };
+
+  // Parse the lines of a block body up to its closing brace
+  const parseBody = (parseLineContent: (documentation?: string) => void) => {
+    expectPunctuation('{');
+    skipNewlines();
+    while (!isPunctuation('}')) {
+      if (peek().kind === 'eof') fail('Missing closing }');
+      parseLine(parseLineContent);
+      skipNewlines();
+    }
+    next();
+  };
+
+  const parseModelBlock = (keyword: PslToken, documentation?: string): PslModelBlock => {
+    const name = expectIdentifier().value;
+    const fields: PslField[] = [];
+    const attributes: PslAttribute[] = [];
+    parseBody(lineDocumentation => {
+      if (isPunctuation('@@')) {
+        attributes.push(parseAttribute());
+        expectEndOfLine();
+      } else {
+        fields.push(parseField(lineDocumentation));
+      }
+    });
+    return { kind: keyword.value as PslModelBlock['kind'], name, fields, attributes, documentation, range: rangeFrom(keyword) };
+  };
+
+  const parseEnumBlock = (keyword: PslToken, documentation?: string): PslEnumBlock => {
+    const name = expectIdentifier().value;
+    const values: PslEnumValue[] = [];
+    const attributes: PslAttribute[] = [];
+    parseBody(lineDocumentation => {
+      if (isPunctuation('@@')) {
+        attributes.push(parseAttribute());
+        expectEndOfLine();
+        return;
+      }
+      const start = expectIdentifier();
+      const valueAttributes = parseFieldAttributes();
+      expectEndOfLine();
+      const range = rangeFrom(start);
+      values.push({ name: start.value, attributes: valueAttributes, documentation: withTrailingDocumentation(lineDocumentation), range });
+    });
+    return { kind: 'enum', name, values, attributes, documentation, range: rangeFrom(keyword) };
+  };
+
+  const parseConfigBlock = (keyword: PslToken): PslConfigBlock => {
+    const name = expectIdentifier().value;
+    const properties: PslProperty[] = [];
+    parseBody(() => {
+      const start = expectIdentifier();
+      expectPunctuation('=');
+      const value = parseValue();
+      expectEndOfLine();
+      properties.push({ key: start.value, value, range: rangeFrom(start) });
+    });
+    return { kind: keyword.value as PslConfigBlock['kind'], name, properties, range: rangeFrom(keyword) };
+  };
+
+  const blocks: PslBlock[] = [];
+  skipNewlines();
+  while (peek().kind !== 'eof') {
+    const keyword = peek();
+    const blockDocumentation = takeDocumentation();
+    try {
+      if (keyword.kind !== 'identifier') fail(`Expected a block but found ${describeToken(keyword)}`);
+      next();
+      if (MODEL_KEYWORDS.includes(keyword.value)) {
+        blocks.push(parseModelBlock(keyword, blockDocumentation));
+      } else if (keyword.value === 'enum') {
+        blocks.push(parseEnumBlock(keyword, blockDocumentation));
+      } else if (CONFIG_KEYWORDS.includes(keyword.value)) {
+        blocks.push(parseConfigBlock(keyword));
+      } else {
+        fail(`Unknown block type '${keyword.value}'`, keyword);
+      }
+    } catch (error) {
+      const position = (error as { position?: PslPosition }).position ?? keyword.start;
+      errors.push({ message: error instanceof Error ? error.message : String(error), position });
+      recover(isPunctuation('{', tokens[index - 1]) ? 1 : 0);
+    }
+    skipNewlines();
+  }
+
+  return { blocks, errors };
+}
+
+/**
+ * Write a value back as PSL source
+ * Example: dbgenerated("gen_random_uuid()"), [userId, postId], Cascade
+ */
+export function formatPslValue(value: PslValue): string {
+  switch (value.kind) {
+    case 'string':
+      return JSON.stringify(value.value);
+    case 'number':
+      return value.value;
+    case 'identifier':
+      return value.name;
+    case 'array':
+      return `[${value.items.map(formatPslValue).join(', ')}]`;
+    case 'call':
+      return `${value.name}(${value.args.map(arg => `${arg.name ? `${arg.name}: ` : ''}${formatPslValue(arg.value)}`).join(', ')})`;
+  }
+}
+
+/**
+ * Format a syntax error for display
+ * Example: Line 4, column 12: Expected ')' but found newline
+ */
+export function formatPslError(error: PslSyntaxError): string {
+  return `Line ${error.position.line}, column ${error.position.column}: ${error.message}`;
+}
+
+function describeToken(token: PslToken): string {
+  switch (token.kind) {
+    case 'eof':
+      return 'end of schema';
+    case 'newline':
+      return 'end of line';
+    case 'string':
+      return `"${token.value}"`;
+    default:
+      return `'${token.value}'`;
+  }
+}
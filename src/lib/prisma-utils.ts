@@ -1,3 +1,5 @@
+import { formatPslError, parsePsl } from './prisma-psl';
+
 
 
 // Example Prisma schema for PostgreSQL
@@ -188,29 +190,23 @@ export function detectSchemaType(schemaCode: string): 'prisma' | 'drizzle' | 'un
   return 'unknown';
 }
 
-// Validate Prisma schema syntax basics
+// Validate Prisma schema syntax and the blocks it declares
 export function validatePrismaSchema(schemaCode: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+  const { blocks, errors: syntaxErrors } = parsePsl(schemaCode);
+  const errors = syntaxErrors.map(formatPslError);
   
   // Check for at least one model or enum
-  if (!schemaCode.includes('model ') && !schemaCode.includes('enum ')) {
+  if (!blocks.some(block => block.kind === 'model' || block.kind === 'enum')) {
     errors.push('Schema must contain at least one model or enum');
   }
   
-  // Check for balanced braces
-  const openBraces = (schemaCode.match(/\{/g) || []).length;
-  const closeBraces = (schemaCode.match(/\}/g) || []).length;
-  if (openBraces !== closeBraces) {
-    errors.push('Unbalanced braces in schema');
-  }
-  
   // Check for generator (optional but recommended)
-  if (!schemaCode.includes('generator ')) {
+  if (!blocks.some(block => block.kind === 'generator')) {
     errors.push('Warning: No generator defined (optional)');
   }
   
   // Check for datasource (optional but recommended)
-  if (!schemaCode.includes('datasource ')) {
+  if (!blocks.some(block => block.kind === 'datasource')) {
     errors.push('Warning: No datasource defined (optional)');
   }
   
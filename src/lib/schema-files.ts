@@ -0,0 +1,141 @@
+import { OrmType, SchemaFile } from '@/types/drizzle';
+import { normalizeSchemaPath } from './drizzle-modules';
+
+// Source files picked up from an imported folder or zip for each ORM
+const SCHEMA_FILE_EXTENSIONS: Record<OrmType, string[]> = {
+  drizzle: ['.ts', '.tsx', '.mts', '.js', '.mjs'],
+  prisma: ['.prisma']
+};
+
+// Folders never worth reading when a whole project is dropped in
+const IGNORED_PATH_SEGMENTS = ['node_modules', '.git', '.next', 'dist', 'build', '__MACOSX'];
+
+// Zip record signatures and compression methods
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// Check whether an imported file belongs to the schema, e.g. schema/users.ts but not users.test.ts or types.d.ts
+export function isSchemaSourceFile(path: string, ormType: OrmType): boolean {
+  const normalizedPath = normalizeSchemaPath(path);
+  const segments = normalizedPath.split('/');
+  if (segments.some(segment => IGNORED_PATH_SEGMENTS.includes(segment))) return false;
+
+  const fileName = segments[segments.length - 1];
+  if (/\.d\.ts$|\.(test|spec)\.\w+$/.test(fileName)) return false;
+  return SCHEMA_FILE_EXTENSIONS[ormType].some(extension => fileName.endsWith(extension));
+}
+
+// Read the schema files of a folder picked with <input webkitdirectory>, keeping their relative paths
+export async function readFolderFiles(fileList: FileList, ormType: OrmType): Promise<SchemaFile[]> {
+  const files = Array.from(fileList)
+    .map(file => ({ file, path: normalizeSchemaPath(file.webkitRelativePath || file.name) }))
+    .filter(({ path }) => isSchemaSourceFile(path, ormType));
+
+  return Promise.all(files.map(async ({ file, path }) => ({ path, content: await file.text() })));
+}
+
+// Read the schema files of items dropped on the editor: folders are walked, a single zip is unpacked
+export async function readDroppedFiles(dataTransfer: DataTransfer, ormType: OrmType): Promise<SchemaFile[]> {
+  const droppedFiles = Array.from(dataTransfer.files);
+  if (droppedFiles.length === 1 && droppedFiles[0].name.endsWith('.zip')) {
+    return readZipFiles(droppedFiles[0], ormType);
+  }
+
+  // Entries must be taken from the drop event before anything is awaited
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const files: SchemaFile[] = [];
+  await Promise.all(entries.map(entry => collectEntryFiles(entry, ormType, files)));
+  return files;
+}
+
+async function collectEntryFiles(entry: FileSystemEntry, ormType: OrmType, files: SchemaFile[]): Promise<void> {
+  if (entry.isFile) {
+    const path = normalizeSchemaPath(entry.fullPath);
+    if (!isSchemaSourceFile(path, ormType)) return;
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ path, content: await file.text() });
+  } else if (entry.isDirectory && !IGNORED_PATH_SEGMENTS.includes(entry.name)) {
+    // readEntries returns the directory in batches, then an empty one
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      await Promise.all(batch.map(child => collectEntryFiles(child, ormType, files)));
+    } while (batch.length > 0);
+  }
+}
+
+// Read the schema files of a zip archive (stored or deflated entries)
+export async function readZipFiles(zip: Blob, ormType: OrmType): Promise<SchemaFile[]> {
+  const buffer = await zip.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: SchemaFile[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_HEADER) break;
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const path = normalizeSchemaPath(decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Skip folders, encrypted entries and files outside the schema
+    const isEncrypted = (flags & 1) !== 0;
+    if (!path || isEncrypted || !isSchemaSourceFile(path, ormType) || view.getUint32(localHeaderOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+      continue;
+    }
+
+    // The local header repeats the name and may carry a different extra field
+    const dataOffset = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+    const data = new Uint8Array(buffer, dataOffset, compressedSize);
+    if (method === ZIP_STORED) {
+      files.push({ path, content: decoder.decode(data) });
+    } else if (method === ZIP_DEFLATED) {
+      files.push({ path, content: decoder.decode(await inflateRaw(data)) });
+    }
+  }
+
+  return files;
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Pick a file name that is not taken yet: schema.ts, schema-2.ts, schema-3.ts...
+export function getUnusedSchemaPath(files: SchemaFile[], ormType: OrmType): string {
+  const extension = SCHEMA_FILE_EXTENSIONS[ormType][0];
+  const paths = new Set(files.map(file => file.path));
+  let path = `schema${extension}`;
+  for (let n = 2; paths.has(path); n++) {
+    path = `schema-${n}${extension}`;
+  }
+  return path;
+}
@@ -3,8 +3,38 @@
 // ORM Type
 export type OrmType = 'drizzle' | 'prisma';
 
+// SQL dialect the schema targets
+export type DatabaseDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+// Referential action of a foreign key (ON DELETE / ON UPDATE)
+export type ReferentialAction = 'cascade' | 'restrict' | 'no action' | 'set null' | 'set default';
+
+// Which names the diagram shows: ORM property names or database names
+export type NameDisplayMode = 'orm' | 'database';
+
+// Drizzle's casing option, used for database column names left out of the schema, e.g. createdAt: timestamp()
+export type ColumnCasing = 'snake_case' | 'camelCase';
+
+// Casing picked in the UI: detected from drizzle() or drizzle.config.ts, none, or forced
+export type CasingSetting = 'auto' | 'none' | ColumnCasing;
+
+// Where a column value comes from: a literal, a SQL expression run by the
+// database, or a function run by the application (ORM client)
+export type ColumnDefaultKind = 'literal' | 'sql' | 'function';
+
+export interface ParsedColumnDefault {
+  kind: ColumnDefaultKind;
+  // The literal, SQL expression or function as written in the schema, e.g. 'draft', now(), crypto.randomUUID()
+  value: string;
+}
+
 export interface ParsedColumn {
+  // Identifier used for relationships and handles (the ORM property name)
   name: string;
+  // Property name in the ORM schema, e.g. createdAt
+  propertyName: string;
+  // Column name in the database, e.g. created_at
+  dbName: string;
   type: string;
   isPrimaryKey: boolean;
   isUnique: boolean;
@@ -12,41 +42,253 @@ export interface ParsedColumn {
   references?: {
     table: string;
     column: string;
+    onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
+  };
+  defaultValue?: ParsedColumnDefault;
+  // Value set on every update: $onUpdate() in Drizzle, @updatedAt in Prisma
+  onUpdateValue?: ParsedColumnDefault;
+  // Array column, e.g. text('tags').array() or String[] in Prisma
+  isArray?: boolean;
+  // GENERATED ALWAYS AS (expression) column
+  generated?: {
+    expression: string;
+    mode?: 'stored' | 'virtual';
   };
-  defaultValue?: string;
+  // GENERATED ALWAYS / BY DEFAULT AS IDENTITY column
+  identity?: 'always' | 'by default';
+  // App-level TypeScript type from $type<T>(), e.g. 'draft' | 'published'
+  tsType?: string;
+  // Name of the enum the column is typed with, e.g. roleEnum('role') or role Role
+  enumName?: string;
+  // Name of the customType the column is built with, e.g. citext('email'); type then holds its dataType()
+  customType?: string;
+  // Embedded document of a Prisma composite type (MongoDB), e.g. address Address
+  compositeType?: ParsedCompositeType;
+  // Documentation written above the column: /// in Prisma, /** ... */ in Drizzle
+  description?: string;
+}
+
+// Composite type (Prisma type block) with the fields of the embedded document
+export interface ParsedCompositeType {
+  name: string;
+  columns: ParsedColumn[];
+}
+
+// Sort direction and NULLS placement of an index key
+export type IndexSortOrder = 'asc' | 'desc';
+export type IndexNullsOrder = 'first' | 'last';
+
+// One key of an index: a column or an expression, e.g. lower("email")
+export interface ParsedIndexKey {
+  column?: string;
+  expression?: string;
+  order?: IndexSortOrder;
+  nulls?: IndexNullsOrder;
+  // Operator class, e.g. .op('gin_trgm_ops')
+  opClass?: string;
 }
 
 export interface ParsedIndex {
   name: string;
+  // Columns the index covers, including those used inside expression keys
   columns: string[];
+  keys: ParsedIndexKey[];
   isUnique: boolean;
+  // Access method: btree, hash, gin, gist, brin... (Prisma: Hash, Gin...)
+  method?: string;
+  // Predicate of a partial index
+  where?: string;
+  isConcurrent?: boolean;
+}
+
+// Table constraint other than the primary key and foreign keys
+export type ConstraintKind = 'check' | 'unique';
+
+export interface ParsedConstraint {
+  kind: ConstraintKind;
+  // Declared name, or the name the ORM generates for it
+  name: string;
+  // Constrained columns; for checks, the columns the expression mentions
+  columns: string[];
+  // SQL of a check constraint
+  expression?: string;
+  // UNIQUE NULLS NOT DISTINCT
+  nullsNotDistinct?: boolean;
+}
+
+// Table-level primary key, possibly spanning several columns
+export interface ParsedPrimaryKey {
+  name?: string;
+  columns: string[];
 }
 
 export interface ParsedEnum {
+  // Identifier used by columns: the pgEnum variable or the Prisma enum name
   name: string;
+  propertyName: string;
+  // Type name in the database, e.g. club_member_role
+  dbName: string;
+  schema?: string;
   values: string[];
+  description?: string;
+  // Documentation of single values, by value
+  valueDescriptions?: Record<string, string>;
+}
+
+// Command a row-level security policy applies to
+export type PolicyCommand = 'all' | 'select' | 'insert' | 'update' | 'delete';
+
+// Row-level security policy: pgPolicy() in a table's extra config or linked with .link(table)
+export interface ParsedPolicy {
+  name: string;
+  // Id of the table the policy is attached to
+  table: string;
+  as: 'permissive' | 'restrictive';
+  for: PolicyCommand;
+  // Role names; empty means PUBLIC
+  to: string[];
+  using?: string;
+  withCheck?: string;
+}
+
+// Database role declared with pgRole()
+export interface ParsedRole {
+  name: string;
+  propertyName: string;
+  createDb?: boolean;
+  createRole?: boolean;
+  inherit?: boolean;
+  // Declared with .existing(): managed outside of the ORM
+  isExisting?: boolean;
+}
+
+// Sequence declared with pgSequence()
+export interface ParsedSequence {
+  name: string;
+  propertyName: string;
+  schema?: string;
+  startWith?: string;
+  increment?: string;
+  minValue?: string;
+  maxValue?: string;
+  cache?: string;
+  cycle?: boolean;
+  // Columns whose default draws from the sequence with nextval()
+  usedBy: { table: string; column: string }[];
 }
 
 export interface ParsedTable {
   id: string;
   name: string;
+  // Exported table constant (Drizzle) or model name (Prisma)
+  propertyName: string;
+  // Table name in the database
+  dbName: string;
+  // Database schema (namespace) from pgSchema('billing') or @@schema("billing")
+  schema?: string;
   columns: ParsedColumn[];
   indexes: ParsedIndex[];
+  constraints: ParsedConstraint[];
+  primaryKey?: ParsedPrimaryKey;
+  // Row-level security: .enableRLS(), pgTable.withRLS() or any attached policy
+  isRlsEnabled?: boolean;
+  policies?: ParsedPolicy[];
+  // Join table created by the ORM without a model, e.g. Prisma's _PostToTag for an implicit many-to-many
+  isVirtual?: boolean;
+  description?: string;
+  position: { x: number; y: number };
+}
+
+// View or materialized view: pgView()/pgMaterializedView() in Drizzle, view blocks in Prisma
+export interface ParsedView {
+  id: string;
+  name: string;
+  propertyName: string;
+  dbName: string;
+  schema?: string;
+  materialized: boolean;
+  columns: ParsedColumn[];
+  // Ids of the tables and views the query reads from, when they can be worked out
+  dependencies: string[];
+  // SQL of views defined with sql`...`
+  definition?: string;
+  // Declared with .existing(): managed outside of the ORM
+  isExisting?: boolean;
+  description?: string;
   position: { x: number; y: number };
 }
 
+// Cardinality read from source to target, e.g. many posts to one user
+export type RelationshipCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
 export interface ParsedRelationship {
   id: string;
   source: string;
   target: string;
+  // First column pair, used to anchor the edge
   sourceColumn: string;
   targetColumn: string;
+  // All column pairs, in order (more than one for composite foreign keys)
+  sourceColumns: string[];
+  targetColumns: string[];
+  cardinality: RelationshipCardinality;
+  // relationName in Drizzle, @relation("Name") in Prisma
+  name?: string;
+  // ORM relation fields on each side, e.g. posts.author and users.authoredPosts
+  sourceField?: string;
+  targetField?: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  // Junction table of a many-to-many relation and its columns pointing at each side,
+  // e.g. through(r.usersToGroups.userId) in Drizzle relations v2
+  through?: {
+    table: string;
+    sourceColumns: string[];
+    targetColumns: string[];
+  };
+  // optional: true/false of a Drizzle relations v2 one()
+  isOptional?: boolean;
+  // Filter on the related rows as written, e.g. { verified: true }
+  where?: string;
+  // Kept by the ORM instead of a database foreign key, e.g. Prisma relationMode = "prisma"
+  isEmulated?: boolean;
+}
+
+// Prisma datasource block
+export interface ParsedDatasource {
+  name: string;
+  // postgresql, mysql, sqlite, sqlserver, cockroachdb or mongodb
+  provider: string;
+  // "prisma" emulates foreign keys in Prisma Client instead of creating them in the database
+  relationMode?: 'foreignKeys' | 'prisma';
+  // Database schemas of the multiSchema feature, e.g. ["auth", "billing"]
+  schemas?: string[];
+  // PostgreSQL extensions as written, e.g. pg_trgm or citext(schema: "public")
+  extensions?: string[];
+}
+
+// Prisma generator block
+export interface ParsedGenerator {
+  name: string;
+  provider: string;
+  previewFeatures: string[];
+  output?: string;
 }
 
 export interface ParsedSchema {
   tables: ParsedTable[];
+  views: ParsedView[];
   relationships: ParsedRelationship[];
   enums: ParsedEnum[];
+  sequences?: ParsedSequence[];
+  roles?: ParsedRole[];
+  dialect?: DatabaseDialect;
+  // Casing applied to database column names that were left out
+  casing?: ColumnCasing;
+  // Prisma datasource and generator blocks
+  datasource?: ParsedDatasource;
+  generators?: ParsedGenerator[];
 }
 
 export interface ParseResult {
@@ -55,6 +297,15 @@ export interface ParseResult {
   error?: string;
 }
 
+// One file of a schema split across modules, e.g. schema/users.ts next to a schema/index.ts barrel
+export interface SchemaFile {
+  path: string;
+  content: string;
+}
+
+// Kinds of nodes the canvas can show or hide
+export type NodeKind = 'table' | 'view' | 'enum';
+
 export interface SchemaStats {
   tableCount: number;
   relationshipCount: number;
@@ -78,7 +329,10 @@ export enum SchemaValidationStatus {
 // Component prop types
 export interface DrizzleFlowVisualizationProps {
   tables: ParsedTable[];
+  views?: ParsedView[];
+  enums?: ParsedEnum[];
   relationships: ParsedRelationship[];
+  nameMode?: NameDisplayMode;
   className?: string;
 }
 